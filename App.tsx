@@ -1,45 +1,103 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Layer, ExportData, Coordinates } from './types';
+import { Layer, Artboard, Guide, HistoryEntry, Calibration, Coordinates, ControlPoint, CropRect, ExposureAdjustment } from './types';
 import { Icons } from './components/Icon';
+import { saveProject, openProject, PROJECT_EXTENSION } from './utils/project';
+import { saveSession, loadSession, clearSession, AutosaveSession } from './utils/autosave';
+import { Bounds, getLayerDimensions, getCropRect, setLayerCrop, normalizeCrop, getLayersBounds, getOverlapBounds, applyLayerChanges, normalizeAngle, similarityAbout, transformLayer, sourceToCanvas, canvasToSource, isInsideCrop } from './utils/geometry';
+import { renderComposite, getCompositeBounds, getCompositeSize, CompositeOptions } from './utils/composite';
+import { SeamBlend, MAX_BLEND_AREA } from './utils/blending';
+import { buildExport, parseExportOptions, ExportFormat, ExportOptions, ExportVersion } from './utils/export';
+import { featureAlign, AlignmentModel } from './utils/alignment';
+import { phaseAlign } from './utils/phaseCorrelation';
+import { loadImage, drawLayer } from './utils/imageData';
+import { getExposure, setLayerExposure, isNeutralExposure, getChannelTransfer, getExposureFilterId, matchExposure, DEFAULT_EXPOSURE, Channel } from './utils/exposure';
+import { getSnapTargets, snapBounds, SnapLine } from './utils/snapping';
+import { alignLayers, distributeLayers, AlignEdge, DistributeAxis, DistributeMode } from './utils/arrange';
+import { arrangeGrid, inferGridCells, suggestGridSize, GridOptions, ScanOrder, StartCorner } from './utils/gridLayout';
+import {
+  getControlPointPairs,
+  nextControlPointName,
+  createControlPoint,
+  solveControlPoints,
+  applyControlPointSolution,
+  MIN_CONTROL_PAIRS
+} from './utils/controlPoints';
+import { parseLayout, applyLayout, detectLayoutFormat, LayoutImportResult } from './utils/layout';
+import {
+  describeMeasurement,
+  describeOffset,
+  measureDistance,
+  getStraightenRotation,
+  calibrateFromDistance,
+  isCalibrated,
+  Measurement,
+  MeasureMode,
+  MEASURE_POINT_COUNT
+} from './utils/measure';
 
 // --- Constants ---
 const ZOOM_STEP = 0.1;
 const MIN_ZOOM = 0.1;
 const MAX_ZOOM = 5;
+const AUTOSAVE_DELAY = 1000; // ms of inactivity before the session is written to IndexedDB
+const DEFAULT_SNAP_DISTANCE = 8; // screen pixels
+const GIZMO_HANDLE_SIZE = 10; // screen pixels
+const GIZMO_ROTATE_OFFSET = 32; // screen pixels between the selection and the rotation knob
+const ROTATION_SNAP = 15; // degrees, while Shift is held
+
+// Drag state of the on-canvas transform handles
+interface GizmoDrag {
+  mode: 'scale' | 'rotate';
+  group: boolean; // transform the selection as one rigid body around `center`
+  center: Coordinates; // canvas pivot (selection centre or the group pivot)
+  startAngle: number; // radians, cursor around the pivot
+  startDistance: number;
+  initial: Record<string, Layer>;
+}
+
+// Canvas tools that take over clicks on layers (default is select/move)
+type CanvasTool = 'select' | 'controlPoints' | 'crop' | 'measure' | 'straighten';
+
+// View-only overlap aids; never written to layers or exports
+type CompareMode = 'normal' | 'difference' | 'anaglyph' | 'flicker' | 'swipe';
+type SwipeOrientation = 'vertical' | 'horizontal';
+const FLICKER_INTERVAL = 500; // ms per layer while flickering
+
+const COMPARE_OPTIONS: { value: CompareMode; label: string }[] = [
+  { value: 'normal', label: 'Normal' },
+  { value: 'difference', label: 'Difference' },
+  { value: 'anaglyph', label: 'Anaglyph' },
+  { value: 'flicker', label: 'Flicker' },
+  { value: 'swipe', label: 'Swipe' }
+];
+
+const LOUPE_SIZE = 160; // screen pixels
+const LOUPE_OFFSET = 24; // gap between the cursor and the loupe
+const LOUPE_READOUT_HEIGHT = 80; // room kept for the coordinate readout below the circle
+const LOUPE_MAGNIFICATIONS = [8, 16, 32];
+
+const MEASURE_OPTIONS: { value: MeasureMode; label: string }[] = [
+  { value: 'distance', label: 'Distance' },
+  { value: 'angle', label: 'Angle' }
+];
+const MEASURE_COLOR = '#ec4899'; // pink-500
+const MIN_STRAIGHTEN_LENGTH = 8; // screen pixels; shorter lines are treated as a stray click
+
+const RULER_SIZE = 20; // screen pixels
+const RULER_LABEL_SPACING = 60; // minimum screen distance between labelled ticks
+const GUIDE_HIT_SIZE = 7; // screen pixels around a guide that grab it
 
 // --- Helpers ---
 
-const calculateRotatedDimensions = (width: number, height: number, rotation: number, scale: number) => {
-  // Normalize rotation to 0-360 positive range for cleaner logic
-  let r = rotation % 360;
-  if (r < 0) r += 360;
-
-  const s = isNaN(scale) ? 1 : scale;
-  const w = isNaN(width) ? 0 : width;
-  const h = isNaN(height) ? 0 : height;
-
-  const scaledW = w * s;
-  const scaledH = h * s;
-
-  // Snap to exact values for orthogonal angles to prevent float distortion
-  // 0, 180, 360: Width/Height remain (just inverted if 180, but bbox size is same)
-  if (Math.abs(r - 0) < 0.05 || Math.abs(r - 180) < 0.05 || Math.abs(r - 360) < 0.05) {
-      return { width: scaledW, height: scaledH };
-  }
-  // 90, 270: Width/Height swap exactly
-  if (Math.abs(r - 90) < 0.05 || Math.abs(r - 270) < 0.05) {
-      return { width: scaledH, height: scaledW };
-  }
-
-  const angleRad = Math.abs((rotation * Math.PI) / 180);
-  const cos = Math.abs(Math.cos(angleRad));
-  const sin = Math.abs(Math.sin(angleRad));
-  
-  // Matches Python: new_w = (h * sin) + (w * cos)
-  const newW = (scaledH * sin) + (scaledW * cos);
-  const newH = (scaledH * cos) + (scaledW * sin);
-
-  return { width: newW, height: newH };
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
 };
 
 const Button: React.FC<React.ButtonHTMLAttributes<HTMLButtonElement> & { variant?: 'primary' | 'secondary' | 'danger' | 'ghost' }> = ({ 
@@ -272,31 +330,192 @@ const StepInput: React.FC<{
   );
 };
 
+function SegmentedControl<T extends string | number>({ options, value, onChange }: {
+  options: { value: T; label: string; disabled?: boolean }[];
+  value: T;
+  onChange: (val: T) => void;
+}) {
+  return (
+    <div className="flex bg-white/40 rounded-xl p-1 border border-white/50 shadow-sm gap-1">
+      {options.map(opt => (
+        <button
+          key={String(opt.value)}
+          type="button"
+          disabled={opt.disabled}
+          onClick={() => onChange(opt.value)}
+          className={`flex-1 px-2 py-1.5 rounded-lg text-xs font-semibold transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+            value === opt.value ? 'bg-sky-500/90 text-white shadow-sm' : 'text-slate-500 hover:bg-white/60 hover:text-slate-700'
+          }`}
+        >
+          {opt.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Magnified, nearest-neighbour view of the composited layers around a canvas point
+const PixelLoupe: React.FC<{
+  layers: Layer[];
+  point: Coordinates; // canvas coordinates under the cursor
+  position: Coordinates; // cursor position within the canvas area
+  viewport: { width: number; height: number };
+  magnification: number;
+}> = ({ layers, point, position, viewport, magnification }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const imagesRef = useRef(new Map<string, HTMLImageElement>());
+  const requestedRef = useRef(new Set<string>()); // loaded, loading or failed
+  const [loadedCount, setLoadedCount] = useState(0);
+  const [failedUrls, setFailedUrls] = useState<Set<string>>(new Set()); // images that could not be decoded
+
+  useEffect(() => {
+    layers.forEach(layer => {
+      if (requestedRef.current.has(layer.imageUrl)) return;
+      requestedRef.current.add(layer.imageUrl);
+      loadImage(layer.imageUrl)
+        .then(img => {
+          imagesRef.current.set(layer.imageUrl, img);
+          setLoadedCount(c => c + 1);
+        })
+        .catch(() => setFailedUrls(prev => new Set(prev).add(layer.imageUrl)));
+    });
+  }, [layers]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = LOUPE_SIZE * dpr;
+    canvas.height = LOUPE_SIZE * dpr;
+
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, LOUPE_SIZE, LOUPE_SIZE);
+    ctx.imageSmoothingEnabled = false;
+    ctx.translate(LOUPE_SIZE / 2, LOUPE_SIZE / 2);
+    ctx.scale(magnification, magnification);
+    ctx.translate(-point.x, -point.y);
+    layers.forEach(layer => {
+      const img = imagesRef.current.get(layer.imageUrl);
+      if (!layer.visible || !img) return;
+      ctx.globalAlpha = layer.opacity;
+      // Same SVG filter as the canvas view; browsers without canvas filters show raw pixels
+      ctx.filter = isNeutralExposure(layer.exposure) ? 'none' : `url(#${getExposureFilterId(layer)})`;
+      drawLayer(ctx, img, layer);
+    });
+  }, [layers, point.x, point.y, magnification, loadedCount]);
+
+  // Source pixel under the cursor for every visible layer it falls on, top layer first
+  const hits = [...layers].reverse()
+    .filter(layer => layer.visible)
+    .map(layer => ({ layer, source: canvasToSource(layer, point) }))
+    .filter(({ layer, source }) => isInsideCrop(layer, source));
+
+  // Sit below-right of the cursor, flipping to the other side near the viewport edges
+  const left = position.x + LOUPE_OFFSET + LOUPE_SIZE > viewport.width ? position.x - LOUPE_OFFSET - LOUPE_SIZE : position.x + LOUPE_OFFSET;
+  const top = position.y + LOUPE_OFFSET + LOUPE_SIZE + LOUPE_READOUT_HEIGHT > viewport.height ? position.y - LOUPE_OFFSET - LOUPE_SIZE - LOUPE_READOUT_HEIGHT : position.y + LOUPE_OFFSET;
+
+  return (
+    <div className="absolute z-40 pointer-events-none flex flex-col items-center gap-2" style={{ left, top, width: LOUPE_SIZE }}>
+      <div
+        className="relative rounded-full overflow-hidden border-4 border-white/90 shadow-2xl ring-1 ring-slate-300/60 checkerboard-bg bg-white"
+        style={{ width: LOUPE_SIZE, height: LOUPE_SIZE }}
+      >
+        <canvas ref={canvasRef} style={{ width: LOUPE_SIZE, height: LOUPE_SIZE }} className="block" />
+        {/* Crosshair marks the exact cursor position */}
+        <div className="absolute left-1/2 top-0 bottom-0 w-px -ml-px bg-red-500/70" />
+        <div className="absolute top-1/2 left-0 right-0 h-px -mt-px bg-red-500/70" />
+      </div>
+      <div className="w-max max-w-[16rem] bg-white/85 backdrop-blur-md rounded-lg border border-white/60 shadow-lg px-2.5 py-1.5 text-[10px] font-mono text-slate-600 space-y-0.5">
+        <div className="font-bold text-slate-700">
+          Canvas {point.x.toFixed(1)}, {point.y.toFixed(1)} <span className="font-normal text-slate-400">· {magnification}x</span>
+        </div>
+        {hits.slice(0, 4).map(({ layer, source }) => (
+          <div key={layer.id} className="flex gap-2 justify-between">
+            <span className="truncate max-w-[8rem]">{layer.name}</span>
+            {failedUrls.has(layer.imageUrl)
+              ? <span className="text-amber-600">image unavailable</span>
+              : <span>{source.x.toFixed(1)}, {source.y.toFixed(1)}</span>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Labelled tick step in canvas pixels (1, 2 or 5 times a power of ten) and its minor subdivisions
+const getRulerStep = (zoom: number) => {
+  const raw = RULER_LABEL_SPACING / zoom;
+  const power = Math.pow(10, Math.floor(Math.log10(raw)));
+  const mantissa = [1, 2, 5, 10].find(m => m * power >= raw) ?? 10;
+  return { step: mantissa * power, minor: mantissa === 2 ? 4 : 5 };
+};
+
+// Edge ruler in canvas (image-pixel) units; ticks follow zoom and pan
+const Ruler: React.FC<{
+  orientation: 'horizontal' | 'vertical';
+  zoom: number;
+  offset: number; // pan along the ruler's axis
+  onMouseDown: (e: React.MouseEvent) => void;
+}> = ({ orientation, zoom, offset, onMouseDown }) => {
+  const horizontal = orientation === 'horizontal';
+  const length = horizontal ? window.innerWidth : window.innerHeight;
+  const { step, minor } = getRulerStep(zoom);
+  const minorStep = step / minor;
+  const ticks: { position: number; value: number; major: boolean }[] = [];
+  for (let i = Math.floor(-offset / zoom / minorStep); i * minorStep * zoom + offset <= length; i++) {
+    ticks.push({ position: offset + i * minorStep * zoom, value: i * minorStep, major: i % minor === 0 });
+  }
+
+  return (
+    <svg
+      onMouseDown={onMouseDown}
+      className="absolute z-30 bg-white/80 backdrop-blur-md border-slate-200/70 select-none"
+      style={horizontal
+        ? { left: 0, top: 0, width: '100%', height: RULER_SIZE, borderBottomWidth: 1, cursor: 'row-resize' }
+        : { left: 0, top: 0, width: RULER_SIZE, height: '100%', borderRightWidth: 1, cursor: 'col-resize' }}
+    >
+      {ticks.map(({ position, value, major }) => {
+        const tick = major ? 9 : 4;
+        const label = parseFloat(value.toFixed(6)).toString();
+        return horizontal ? (
+          <g key={value}>
+            <line x1={position} x2={position} y1={RULER_SIZE - tick} y2={RULER_SIZE} stroke="#94a3b8" strokeWidth={1} />
+            {major && <text x={position + 3} y={9} fontSize={9} fill="#64748b">{label}</text>}
+          </g>
+        ) : (
+          <g key={value}>
+            <line y1={position} y2={position} x1={RULER_SIZE - tick} x2={RULER_SIZE} stroke="#94a3b8" strokeWidth={1} />
+            {major && <text transform={`translate(9, ${position + 3}) rotate(-90)`} textAnchor="end" fontSize={9} fill="#64748b">{label}</text>}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
 // --- Modals ---
 
 const ExportModal: React.FC<{
   isOpen: boolean;
   onClose: () => void;
-  data: string;
-  filename: string;
-  type: string;
-}> = ({ isOpen, onClose, data, filename, type }) => {
+  layers: Layer[];
+  format: ExportFormat;
+  onFormatChange: (format: ExportFormat) => void;
+  options: ExportOptions;
+  onOptionsChange: (options: ExportOptions) => void;
+  artboard: Artboard | null;
+}> = ({ isOpen, onClose, layers, format, onFormatChange, options, onOptionsChange, artboard }) => {
   if (!isOpen) return null;
 
+  const { content: data, filename, type } = buildExport(layers, format, options, artboard);
+
   const handleCopy = () => {
     navigator.clipboard.writeText(data);
   };
 
   const handleDownload = () => {
-    const blob = new Blob([data], { type });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadBlob(new Blob([data], { type }), filename);
     onClose();
   };
 
@@ -316,8 +535,72 @@ const ExportModal: React.FC<{
         </div>
         
         <div className="p-6 flex-1 overflow-hidden flex flex-col">
+          <div className="mb-3">
+            <SegmentedControl
+              options={[
+                { value: 'json', label: 'JSON' },
+                { value: 'csv', label: 'CSV' },
+                { value: 'python', label: 'Python script' }
+              ]}
+              value={format}
+              onChange={onFormatChange}
+            />
+          </div>
+          {artboard && (
+            <label className="flex items-center gap-2 mb-3 text-xs text-slate-600 font-medium cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={options.relativeToArtboard}
+                onChange={(e) => onOptionsChange({ ...options, relativeToArtboard: e.target.checked })}
+                className="w-3.5 h-3.5 rounded border-slate-300 cursor-pointer"
+              />
+              Shifts relative to the artboard ({artboard.width} x {artboard.height} px, output canvas = artboard)
+            </label>
+          )}
+          {format === 'python' ? (
+          <div className="flex items-center gap-4 mb-4">
+            <div className="w-56">
+              <SegmentedControl
+                options={[{ value: 'alpha', label: 'Alpha blend' }, { value: 'overwrite', label: 'Overwrite' }]}
+                value={options.pythonBlend}
+                onChange={(pythonBlend) => onOptionsChange({ ...options, pythonBlend })}
+              />
+            </div>
+            <label className="flex-1 flex items-center bg-white/30 border border-white/50 rounded-xl overflow-hidden focus-within:ring-2 focus-within:ring-sky-400/50 shadow-sm">
+              <span className="pl-3 text-xs text-slate-500 select-none font-semibold whitespace-nowrap">Output</span>
+              <input
+                type="text"
+                value={options.pythonOutput}
+                onChange={(e) => onOptionsChange({ ...options, pythonOutput: e.target.value })}
+                placeholder="stitched.png"
+                className="w-full bg-transparent text-xs font-mono text-slate-700 p-2.5 outline-none"
+              />
+            </label>
+          </div>
+          ) : (
+          <div className="flex items-center gap-4 mb-4">
+            <div className="w-56">
+              <SegmentedControl
+                options={[{ value: 1, label: 'v1 (legacy)' }, { value: 2, label: 'v2 (full)' }]}
+                value={options.version}
+                onChange={(version) => onOptionsChange({ ...options, version: version as ExportVersion })}
+              />
+            </div>
+            {options.version === 2 && (
+              <label className="flex items-center gap-2 text-xs text-slate-600 font-medium cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={options.includeMatrix}
+                  onChange={(e) => onOptionsChange({ ...options, includeMatrix: e.target.checked })}
+                  className="w-3.5 h-3.5 rounded border-slate-300 cursor-pointer"
+                />
+                Include <code>warpAffine</code> matrices
+              </label>
+            )}
+          </div>
+          )}
           <p className="text-sm text-slate-500 mb-4 font-medium">
-            Review the generated {type === 'application/json' ? 'JSON' : 'CSV'} content below:
+            Review the generated {format === 'python' ? 'Python script' : format === 'json' ? 'JSON' : 'CSV'} content below:
           </p>
           <pre className="flex-1 bg-white/40 p-5 rounded-2xl border border-white/60 text-xs font-mono text-slate-600 overflow-auto whitespace-pre-wrap select-text shadow-inner backdrop-blur-sm">
             {data}
@@ -430,6 +713,487 @@ const InfoModal: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpen,
   );
 };
 
+const RESOLUTION_OPTIONS = [0.25, 0.5, 1, 2, 4];
+
+const SEAM_BLEND_OPTIONS: { value: SeamBlend; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'feather', label: 'Feather' },
+  { value: 'multiband', label: 'Multi-band' }
+];
+
+const CompositeModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  layers: Layer[];
+  checkedLayers: Set<string>;
+  artboard: Artboard | null;
+}> = ({ isOpen, onClose, layers, checkedLayers, artboard }) => {
+  const [options, setOptions] = useState<CompositeOptions>({
+    format: 'image/png',
+    background: null,
+    bounds: 'all',
+    resolution: 1,
+    blend: 'none',
+    featherWidth: 50
+  });
+  const [backgroundColor, setBackgroundColor] = useState('#ffffff');
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const bounds = getCompositeBounds(layers, checkedLayers, options.bounds, artboard);
+  const size = bounds ? getCompositeSize(bounds, options.resolution) : null;
+
+  const handleRender = async () => {
+    setIsRendering(true);
+    setError(null);
+    try {
+      const blob = await renderComposite(layers, checkedLayers, options, artboard);
+      downloadBlob(blob, options.format === 'image/webp' ? 'stitched_composite.webp' : 'stitched_composite.png');
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/10 backdrop-blur-md p-4 transition-all">
+      <div className="bg-white/80 backdrop-blur-2xl border border-white/60 rounded-3xl shadow-2xl w-full max-w-md flex flex-col max-h-[90vh] ring-1 ring-white/40">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200/30">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-3">
+            <div className="p-2.5 bg-sky-100/50 rounded-xl text-sky-600 shadow-sm border border-sky-100">
+                <Icons.Image size={20} /> 
+            </div>
+            Export Composite
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors p-2 hover:bg-white/50 rounded-full">
+            <Icons.X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto custom-scrollbar">
+          <InputGroup label="Format">
+            <SegmentedControl
+              options={[{ value: 'image/png', label: 'PNG' }, { value: 'image/webp', label: 'WebP (lossless)' }]}
+              value={options.format}
+              onChange={(format) => setOptions({ ...options, format })}
+            />
+          </InputGroup>
+
+          <InputGroup label="Background">
+            <div className="flex items-center gap-3">
+              <div className="flex-1">
+                <SegmentedControl
+                  options={[{ value: 'transparent', label: 'Transparent' }, { value: 'color', label: 'Colour' }]}
+                  value={options.background === null ? 'transparent' : 'color'}
+                  onChange={(mode) => setOptions({ ...options, background: mode === 'transparent' ? null : backgroundColor })}
+                />
+              </div>
+              <input
+                type="color"
+                value={backgroundColor}
+                disabled={options.background === null}
+                onChange={(e) => {
+                  setBackgroundColor(e.target.value);
+                  setOptions({ ...options, background: e.target.value });
+                }}
+                className="w-10 h-10 rounded-xl border border-white/60 bg-white/40 cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+              />
+            </div>
+          </InputGroup>
+
+          <InputGroup label="Output Bounds">
+            <SegmentedControl
+              options={[
+                { value: 'all', label: 'All visible' },
+                { value: 'checked', label: `Checked (${checkedLayers.size})`, disabled: checkedLayers.size === 0 },
+                { value: 'artboard', label: 'Artboard', disabled: !artboard }
+              ]}
+              value={options.bounds}
+              onChange={(b) => setOptions({ ...options, bounds: b })}
+            />
+          </InputGroup>
+
+          <InputGroup label="Resolution">
+            <SegmentedControl
+              options={RESOLUTION_OPTIONS.map(r => ({ value: r, label: `${r}x` }))}
+              value={options.resolution}
+              onChange={(resolution) => setOptions({ ...options, resolution })}
+            />
+          </InputGroup>
+
+          <InputGroup label="Seam Blending">
+            <SegmentedControl
+              options={SEAM_BLEND_OPTIONS}
+              value={options.blend}
+              onChange={(blend) => setOptions({ ...options, blend })}
+            />
+            {options.blend !== 'none' && (
+              <div className="mt-3 space-y-2">
+                <NumberInput
+                  label="Feather Width (px)"
+                  value={options.featherWidth}
+                  onChange={(v) => setOptions({ ...options, featherWidth: Math.max(0, v) })}
+                />
+                <p className="text-[11px] text-slate-400 leading-snug px-1">
+                  {options.blend === 'feather'
+                    ? 'Overlaps fade linearly over this distance inside each layer\'s rotated edge.'
+                    : 'Seams follow the middle of each overlap; colour and brightness blend over about this distance, fine detail stays sharp.'}
+                  {' '}Layer order is ignored.
+                </p>
+              </div>
+            )}
+          </InputGroup>
+
+          <div className="bg-white/40 p-3 rounded-xl border border-white/60 text-xs font-medium text-slate-500">
+            {size ? <>Output size: <span className="font-mono text-slate-700">{size.width} x {size.height} px</span></> : 'No layers inside the selected bounds'}
+          </div>
+          {size && options.blend !== 'none' && size.width * size.height > MAX_BLEND_AREA && (
+            <div className="mt-3 flex items-center gap-2 p-3 rounded-xl bg-amber-50/50 border border-amber-100 text-xs text-amber-700 font-medium">
+              <Icons.AlertTriangle size={14} className="flex-shrink-0" /> Too large for seam blending. Lower the resolution.
+            </div>
+          )}
+          {error && (
+            <div className="mt-3 flex items-center gap-2 p-3 rounded-xl bg-red-50/50 border border-red-100 text-xs text-red-600 font-medium">
+              <Icons.AlertTriangle size={14} className="flex-shrink-0" /> {error}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-200/30 flex justify-end gap-3 bg-white/20 rounded-b-3xl">
+          <Button onClick={onClose} variant="ghost">Cancel</Button>
+          <Button onClick={handleRender} variant="primary" disabled={!size || isRendering}>
+            <Icons.Download size={16} /> {isRendering ? 'Rendering...' : 'Render & Download'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SCAN_ORDER_OPTIONS: { value: ScanOrder; label: string }[] = [
+  { value: 'row-major', label: 'Rows' },
+  { value: 'column-major', label: 'Columns' },
+  { value: 'snake-rows', label: 'Snake rows' },
+  { value: 'snake-columns', label: 'Snake cols' }
+];
+
+const START_CORNER_OPTIONS: { value: StartCorner; label: string }[] = [
+  { value: 'top-left', label: '↖' },
+  { value: 'top-right', label: '↗' },
+  { value: 'bottom-left', label: '↙' },
+  { value: 'bottom-right', label: '↘' }
+];
+
+const GridLayoutModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  selected: Layer[];
+  onApply: (options: GridOptions) => void;
+}> = ({ isOpen, onClose, selected, onApply }) => {
+  const [options, setOptions] = useState<GridOptions>({
+    rows: 1,
+    columns: 1,
+    overlap: 10,
+    order: 'row-major',
+    corner: 'top-left',
+    inferFromFilenames: true
+  });
+
+  // Start from a square-ish grid for the current selection each time the dialog opens
+  useEffect(() => {
+    if (isOpen) setOptions(o => ({ ...o, ...suggestGridSize(selected.length) }));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const inferred = inferGridCells(selected).size;
+  const sequential = options.inferFromFilenames ? selected.length - inferred : selected.length;
+  // Dry run on the selection alone, so the warning counts exactly the layers Arrange would skip
+  const { unplaced } = arrangeGrid(selected, selected, options);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/10 backdrop-blur-md p-4 transition-all">
+      <div className="bg-white/80 backdrop-blur-2xl border border-white/60 rounded-3xl shadow-2xl w-full max-w-md flex flex-col max-h-[90vh] ring-1 ring-white/40">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200/30">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-3">
+            <div className="p-2.5 bg-sky-100/50 rounded-xl text-sky-600 shadow-sm border border-sky-100">
+                <Icons.LayoutGrid size={20} /> 
+            </div>
+            Arrange as Grid
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors p-2 hover:bg-white/50 rounded-full">
+            <Icons.X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto custom-scrollbar">
+          <InputGroup label="Grid">
+            <div className="grid grid-cols-3 gap-3">
+              <NumberInput label="Rows" value={options.rows} onChange={(v) => setOptions({ ...options, rows: Math.max(1, Math.round(v)) })} />
+              <NumberInput label="Cols" value={options.columns} onChange={(v) => setOptions({ ...options, columns: Math.max(1, Math.round(v)) })} />
+              <NumberInput label="Ovl %" value={options.overlap} onChange={(v) => setOptions({ ...options, overlap: Math.max(0, Math.min(90, v)) })} />
+            </div>
+          </InputGroup>
+
+          <InputGroup label="Scan Order">
+            <SegmentedControl options={SCAN_ORDER_OPTIONS} value={options.order} onChange={(order) => setOptions({ ...options, order })} />
+          </InputGroup>
+
+          <InputGroup label="Starting Corner">
+            <SegmentedControl options={START_CORNER_OPTIONS} value={options.corner} onChange={(corner) => setOptions({ ...options, corner })} />
+          </InputGroup>
+
+          <label className="flex items-center gap-2 px-1 mb-5 text-xs font-medium text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.inferFromFilenames}
+              onChange={(e) => setOptions({ ...options, inferFromFilenames: e.target.checked })}
+              className="w-3.5 h-3.5 rounded border-slate-300 accent-sky-500"
+            />
+            Infer positions from filenames (e.g. <span className="font-mono">tile_r03_c07.png</span>)
+          </label>
+
+          <div className="bg-white/40 p-3 rounded-xl border border-white/60 text-xs font-medium text-slate-500 space-y-1">
+            {options.inferFromFilenames && (
+              <div>Grid index found in <span className="font-mono text-slate-700">{inferred}</span> of {selected.length} filenames</div>
+            )}
+            <div>
+              <span className="font-mono text-slate-700">{sequential}</span> layer(s) placed in scan order, sorted by name
+            </div>
+          </div>
+          {unplaced > 0 && (
+            <div className="mt-3 flex items-center gap-2 p-3 rounded-xl bg-amber-50/50 border border-amber-100 text-xs text-amber-700 font-medium">
+              <Icons.AlertTriangle size={14} className="flex-shrink-0" /> {unplaced} layer(s) do not fit into the grid and will stay in place
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-200/30 flex justify-end gap-3 bg-white/20 rounded-b-3xl">
+          <Button onClick={onClose} variant="ghost">Cancel</Button>
+          <Button onClick={() => onApply(options)} variant="primary">
+            <Icons.LayoutGrid size={16} /> Arrange
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface AlignReport {
+  title: string;
+  layerName: string;
+  stats: { label: string; value: string }[];
+  error?: string;
+  action?: keyof typeof REPORT_ACTIONS; // 'move' when absent
+}
+
+const REPORT_ACTIONS = {
+  move: { done: 'Moved', failed: 'Could not align' },
+  adjust: { done: 'Adjusted', failed: 'Could not adjust' }
+};
+
+const AlignResultModal: React.FC<{
+  report: AlignReport | null;
+  onAccept: () => void;
+  onRevert: () => void;
+}> = ({ report, onAccept, onRevert }) => {
+  if (!report) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/10 backdrop-blur-md p-4 transition-all">
+      <div className="bg-white/80 backdrop-blur-2xl border border-white/60 rounded-3xl shadow-2xl w-full max-w-md flex flex-col ring-1 ring-white/40">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200/30">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-3">
+            <div className="p-2.5 bg-sky-100/50 rounded-xl text-sky-600 shadow-sm border border-sky-100">
+                <Icons.Wand size={20} /> 
+            </div>
+            {report.title}
+          </h3>
+        </div>
+
+        <div className="p-6 space-y-3">
+          <p className="text-sm text-slate-500 font-medium truncate">
+            {REPORT_ACTIONS[report.action ?? 'move'][report.error ? 'failed' : 'done']} <span className="text-slate-700 font-semibold">{report.layerName}</span>
+          </p>
+          {report.error ? (
+            <div className="flex items-start gap-2 p-3 rounded-xl bg-red-50/50 border border-red-100 text-xs text-red-600 font-medium">
+              <Icons.AlertTriangle size={14} className="flex-shrink-0 mt-0.5" /> {report.error}
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              {report.stats.map(stat => (
+                <div key={stat.label} className="bg-white/40 p-3 rounded-xl border border-white/60">
+                  <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{stat.label}</div>
+                  <div className="text-sm font-mono font-semibold text-slate-700">{stat.value}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-200/30 flex justify-end gap-3 bg-white/20 rounded-b-3xl">
+          {report.error ? (
+            <Button onClick={onAccept} variant="primary">Close</Button>
+          ) : (
+            <>
+              <Button onClick={onRevert} variant="ghost">
+                <Icons.Undo size={16} /> Revert
+              </Button>
+              <Button onClick={onAccept} variant="primary">Accept</Button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ProjectErrorModal: React.FC<{
+  error: { action: 'save' | 'open'; message: string } | null;
+  onClose: () => void;
+}> = ({ error, onClose }) => {
+  if (!error) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/10 backdrop-blur-md p-4 transition-all">
+      <div className="bg-white/80 backdrop-blur-2xl border border-white/60 rounded-3xl shadow-2xl w-full max-w-md flex flex-col ring-1 ring-white/40">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200/30">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-3">
+            <div className="p-2.5 bg-sky-100/50 rounded-xl text-sky-600 shadow-sm border border-sky-100">
+                {error.action === 'save' ? <Icons.Save size={20} /> : <Icons.FolderOpen size={20} />}
+            </div>
+            {error.action === 'save' ? 'Save Project' : 'Open Project'}
+          </h3>
+        </div>
+
+        <div className="p-6">
+          <div className="flex items-start gap-2 p-3 rounded-xl bg-red-50/50 border border-red-100 text-xs text-red-600 font-medium">
+            <Icons.AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+            Could not {error.action} the project: {error.message}
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-slate-200/30 flex justify-end gap-3 bg-white/20 rounded-b-3xl">
+          <Button onClick={onClose} variant="primary">Close</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const RecoveryModal: React.FC<{
+  session: AutosaveSession | null;
+  onRestore: () => void;
+  onDiscard: () => void;
+}> = ({ session, onRestore, onDiscard }) => {
+  if (!session) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/10 backdrop-blur-md p-4 transition-all">
+      <div className="bg-white/80 backdrop-blur-2xl border border-white/60 rounded-3xl shadow-2xl w-full max-w-md flex flex-col ring-1 ring-white/40">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200/30">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-3">
+            <div className="p-2.5 bg-amber-100/50 rounded-xl text-amber-600 shadow-sm border border-amber-100">
+                <Icons.Undo size={20} /> 
+            </div>
+            Restore Previous Session?
+          </h3>
+        </div>
+
+        <div className="p-6 space-y-3 text-sm text-slate-600">
+          <p>
+            StitchCraft found an unsaved session from <strong>{new Date(session.savedAt).toLocaleString()}</strong>.
+          </p>
+          <div className="bg-white/40 p-3 rounded-xl border border-white/60 text-xs font-medium text-slate-500">
+            {session.layers.length} layer{session.layers.length === 1 ? '' : 's'} · {session.history.length} undo step{session.history.length === 1 ? '' : 's'}
+          </div>
+          <p className="text-xs text-slate-400">Discarding removes the recovery data permanently.</p>
+        </div>
+
+        <div className="p-6 border-t border-slate-200/30 flex justify-end gap-3 bg-white/20 rounded-b-3xl">
+          <Button onClick={onDiscard} variant="ghost">Discard</Button>
+          <Button onClick={onRestore} variant="primary">
+            <Icons.Undo size={16} /> Restore Session
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ReportSection: React.FC<{ title: string; items: string[]; tone: 'ok' | 'warn' | 'error' }> = ({ title, items, tone }) => {
+  if (items.length === 0) return null;
+  const tones = {
+    ok: 'bg-emerald-50/50 border-emerald-100 text-emerald-700',
+    warn: 'bg-amber-50/50 border-amber-100 text-amber-700',
+    error: 'bg-red-50/50 border-red-100 text-red-600'
+  };
+
+  return (
+    <div className={`p-3 rounded-xl border ${tones[tone]}`}>
+      <p className="text-xs font-bold uppercase tracking-wide mb-1.5">{title} ({items.length})</p>
+      <ul className="text-xs font-mono space-y-0.5 max-h-32 overflow-y-auto custom-scrollbar">
+        {items.map((item, i) => <li key={i} className="truncate" title={item}>{item}</li>)}
+      </ul>
+    </div>
+  );
+};
+
+const ImportLayoutModal: React.FC<{
+  pending: { filename: string; result: LayoutImportResult } | null;
+  onApply: () => void;
+  onClose: () => void;
+}> = ({ pending, onApply, onClose }) => {
+  if (!pending) return null;
+  const { report } = pending.result;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/10 backdrop-blur-md p-4 transition-all">
+      <div className="bg-white/80 backdrop-blur-2xl border border-white/60 rounded-3xl shadow-2xl w-full max-w-lg flex flex-col max-h-[90vh] ring-1 ring-white/40">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200/30">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-3">
+            <div className="p-2.5 bg-sky-100/50 rounded-xl text-sky-600 shadow-sm border border-sky-100">
+                <Icons.FileUp size={20} /> 
+            </div>
+            Import Layout
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors p-2 hover:bg-white/50 rounded-full">
+            <Icons.X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-3 custom-scrollbar">
+          <p className="text-sm text-slate-500 font-medium truncate">
+            <span className="font-mono text-slate-700">{pending.filename}</span>
+          </p>
+          {report.matched.length === 0 && (
+            <div className="flex items-center gap-2 p-3 rounded-xl bg-red-50/50 border border-red-100 text-sm text-red-600 font-medium">
+              <Icons.AlertTriangle size={16} /> No records match a loaded layer. Nothing will be changed.
+            </div>
+          )}
+          <ReportSection title="Errors" items={report.errors} tone="error" />
+          <ReportSection title="Duplicate names" items={report.duplicates} tone="warn" />
+          <ReportSection title="Not loaded" items={report.unmatchedRecords} tone="warn" />
+          <ReportSection title="Not in layout" items={report.unmatchedLayers} tone="warn" />
+          <ReportSection title="Matched" items={report.matched} tone="ok" />
+        </div>
+
+        <div className="p-6 border-t border-slate-200/30 flex justify-end gap-3 bg-white/20 rounded-b-3xl">
+          <Button onClick={onClose} variant="ghost">Cancel</Button>
+          <Button onClick={onApply} variant="primary" disabled={report.matched.length === 0}>
+            <Icons.FileUp size={16} /> Apply to {report.matched.length} layer{report.matched.length === 1 ? '' : 's'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 // --- Main App Component ---
 
 export default function App() {
@@ -442,14 +1206,50 @@ export default function App() {
   const [draggedLayerId, setDraggedLayerId] = useState<string | null>(null);
   
   // Undo/Redo History
-  const [history, setHistory] = useState<Layer[][]>([]);
-  const [future, setFuture] = useState<Layer[][]>([]);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [future, setFuture] = useState<HistoryEntry[]>([]);
 
   // Canvas Viewport State
   const [zoom, setZoom] = useState<number>(1);
   const [pan, setPan] = useState<Coordinates>({ x: 0, y: 0 });
   const [showGuides, setShowGuides] = useState<boolean>(true);
+  const [showRulers, setShowRulers] = useState<boolean>(true);
   const [showInfo, setShowInfo] = useState<boolean>(false);
+  const [showComposite, setShowComposite] = useState<boolean>(false);
+  const [showGridLayout, setShowGridLayout] = useState<boolean>(false);
+  const [artboard, setArtboard] = useState<Artboard | null>(null);
+  const [artboardDrag, setArtboardDrag] = useState<{ anchor: Coordinates } | null>(null); // opposite corner stays put
+  const [guides, setGuides] = useState<Guide[]>([]);
+  const [measureMode, setMeasureMode] = useState<MeasureMode>('distance');
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const [measureDraft, setMeasureDraft] = useState<Coordinates[]>([]); // points of the measurement being placed
+  const [measurePointer, setMeasurePointer] = useState<Coordinates | null>(null); // canvas coords, for the rubber band
+  const [straightenLine, setStraightenLine] = useState<{ start: Coordinates; end: Coordinates } | null>(null); // canvas coords
+  const [calibration, setCalibration] = useState<Calibration | null>(null);
+  const [calibrationLength, setCalibrationLength] = useState<number | ''>(''); // known length of the last distance
+  const [calibrationUnit, setCalibrationUnit] = useState('µm');
+  const [calibrationError, setCalibrationError] = useState<string | null>(null);
+  const [guideDrag, setGuideDrag] = useState<{ id: string; axis: Guide['axis']; remove: boolean } | null>(null); // remove: released over its ruler
+  const [compareMode, setCompareMode] = useState<CompareMode>('normal');
+  const [flickerIndex, setFlickerIndex] = useState(0);
+  const [swipeOrientation, setSwipeOrientation] = useState<SwipeOrientation>('vertical');
+  const [swipePosition, setSwipePosition] = useState(0.5); // fraction across the swipe region
+  const [showLoupe, setShowLoupe] = useState(false);
+  const [loupeMagnification, setLoupeMagnification] = useState(16);
+  const [loupePointer, setLoupePointer] = useState<Coordinates | null>(null); // within the canvas area
+  const [snapEnabled, setSnapEnabled] = useState<boolean>(() => localStorage.getItem('snapEnabled') !== 'false');
+  const [snapDistance, setSnapDistance] = useState<number>(() => {
+    const saved = localStorage.getItem('snapDistance');
+    return saved ? parseFloat(saved) : DEFAULT_SNAP_DISTANCE;
+  });
+  const [snapLines, setSnapLines] = useState<SnapLine[]>([]);
+  const [gizmoDrag, setGizmoDrag] = useState<GizmoDrag | null>(null);
+  const [groupTransform, setGroupTransform] = useState(false);
+  // Frozen when group mode starts (the selection centre) or placed by dragging the marker, so
+  // repeated rotate/scale edits turn about the same point even as the bounding box changes
+  const [groupPivot, setGroupPivot] = useState<{ point: Coordinates; placed: boolean } | null>(null);
+  const [draggingPivot, setDraggingPivot] = useState(false);
+  const [cropDrag, setCropDrag] = useState<{ layerId: string; start: Coordinates } | null>(null); // start in source pixels
   const [angleStep, setAngleStep] = useState<number>(() => {
     const saved = localStorage.getItem('angleStep');
     return saved ? parseFloat(saved) : 0.1;
@@ -464,29 +1264,52 @@ export default function App() {
   const [isDraggingCanvas, setIsDraggingCanvas] = useState(false);
   const [isDraggingLayer, setIsDraggingLayer] = useState(false);
   const [isSelecting, setIsSelecting] = useState(false);
+  const [activeTool, setActiveTool] = useState<CanvasTool>('select');
+  const [draggingPoint, setDraggingPoint] = useState<{ layerId: string; pointId: string; moved: boolean } | null>(null);
+  // Layer of the pair the next control point goes to; alternates after each placement because
+  // the matching features sit in the overlap, where the top layer would take every click
+  const [controlPointTarget, setControlPointTarget] = useState<'reference' | 'moving'>('reference');
+  const [swipeDrag, setSwipeDrag] = useState<Bounds | null>(null); // region the divider is dragged across
   const [selectionBox, setSelectionBox] = useState<{ start: Coordinates; current: Coordinates } | null>(null);
 
   const [dragStart, setDragStart] = useState<Coordinates>({ x: 0, y: 0 });
   const [initialPan, setInitialPan] = useState<Coordinates>({ x: 0, y: 0 });
   
   // Export Modal
-  const [exportModal, setExportModal] = useState<{ show: boolean; data: string; filename: string; type: string }>({
+  const [exportModal, setExportModal] = useState<{ show: boolean; format: ExportFormat }>({
     show: false,
-    data: '',
-    filename: '',
-    type: ''
+    format: 'json'
   });
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(() => parseExportOptions(localStorage.getItem('exportOptions')));
   
+  // Alignment
+  const [alignModel, setAlignModel] = useState<AlignmentModel>('rigid');
+  const [phaseRotation, setPhaseRotation] = useState(false);
+  const [isAligning, setIsAligning] = useState(false);
+  const [alignReport, setAlignReport] = useState<AlignReport | null>(null);
+
+  // Layout Import (parsed file awaiting confirmation)
+  const [projectError, setProjectError] = useState<{ action: 'save' | 'open'; message: string } | null>(null);
+  const [layoutImport, setLayoutImport] = useState<{ filename: string; result: LayoutImportResult } | null>(null);
+
+  // Crash Recovery: autosave stays off until the user has answered the restore prompt,
+  // otherwise the empty startup state would overwrite the stored session
+  const [pendingRecovery, setPendingRecovery] = useState<AutosaveSession | null>(null);
+  const [autosaveReady, setAutosaveReady] = useState(false);
+  const [autosaveError, setAutosaveError] = useState<string | null>(null); // last IndexedDB failure, shown in the toolbar
+
   // Store initial positions of all selected layers when drag starts
   const [initialLayerPositions, setInitialLayerPositions] = useState<Record<string, Coordinates>>({});
   
   const canvasRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const layoutInputRef = useRef<HTMLInputElement>(null);
 
   // --- History Helpers ---
-  const addToHistory = useCallback(() => {
+  const addToHistory = useCallback((sceneShift?: Coordinates) => {
     setHistory(prev => {
-      const newHistory = [...prev, layers];
+      const newHistory = [...prev, { layers, sceneShift }];
       if (newHistory.length > 50) newHistory.shift(); // Limit history size
       return newHistory;
     });
@@ -498,9 +1321,10 @@ export default function App() {
     const previous = history[history.length - 1];
     const newHistory = history.slice(0, -1);
     
-    setFuture(prev => [layers, ...prev]);
+    setFuture(prev => [{ layers, sceneShift: previous.sceneShift }, ...prev]);
     setHistory(newHistory);
-    setLayers(previous);
+    setLayers(previous.layers);
+    if (previous.sceneShift) shiftScene({ x: -previous.sceneShift.x, y: -previous.sceneShift.y });
   };
 
   const redo = () => {
@@ -508,9 +1332,19 @@ export default function App() {
     const next = future[0];
     const newFuture = future.slice(1);
     
-    setHistory(prev => [...prev, layers]);
+    setHistory(prev => [...prev, { layers, sceneShift: next.sceneShift }]);
     setFuture(newFuture);
-    setLayers(next);
+    setLayers(next.layers);
+    if (next.sceneShift) shiftScene(next.sceneShift);
+  };
+
+  // Moves everything drawn in canvas coordinates besides the layers, which history restores
+  const shiftScene = (offset: Coordinates) => {
+    const move = (p: Coordinates) => ({ x: p.x + offset.x, y: p.y + offset.y });
+    setArtboard(prev => prev && { ...prev, ...move(prev) });
+    setGuides(prev => prev.map(g => ({ ...g, position: g.position + (g.axis === 'x' ? offset.x : offset.y) })));
+    setMeasurements(prev => prev.map(m => ({ ...m, points: m.points.map(move) })));
+    setMeasureDraft(prev => prev.map(move));
   };
 
   // --- Handlers ---
@@ -561,46 +1395,23 @@ export default function App() {
     setLayers((prev) => prev.map(l => l.id === id ? { ...l, ...changes } : l));
   };
 
-  // Wrapper for property panel updates to capture history on change
+  // Wrapper for property panel updates to capture history on change.
+  // Rotation and scale pivot around the CENTER of the current bounding box (see applyLayerChanges)
   const updateSelectedLayers = (changes: Partial<Layer>) => {
     addToHistory();
-    setLayers((prev) => prev.map(l => {
-        if (!selectedLayerIds.has(l.id)) return l;
-
-        // If updating rotation, we want to rotate around the CENTER of the current bounding box
-        // This implies the bounding box size changes, so top-left (x,y) must shift to maintain center
-        if (changes.rotation !== undefined) {
-             const oldDims = calculateRotatedDimensions(l.width, l.height, l.rotation, l.scale);
-             const oldCenterX = l.x + oldDims.width / 2;
-             const oldCenterY = l.y + oldDims.height / 2;
-             
-             const newRotation = changes.rotation;
-             const newDims = calculateRotatedDimensions(l.width, l.height, newRotation, l.scale);
-             
-             // Calculate new X,Y (Top-Left) to preserve center
-             const newX = oldCenterX - newDims.width / 2;
-             const newY = oldCenterY - newDims.height / 2;
-
-             return { ...l, ...changes, x: newX, y: newY };
-        }
-        
-        // If updating scale, similar logic applies: expand/contract from center
-        if (changes.scale !== undefined) {
-             const oldDims = calculateRotatedDimensions(l.width, l.height, l.rotation, l.scale);
-             const oldCenterX = l.x + oldDims.width / 2;
-             const oldCenterY = l.y + oldDims.height / 2;
-             
-             const newScale = changes.scale;
-             const newDims = calculateRotatedDimensions(l.width, l.height, l.rotation, newScale);
-             
-             const newX = oldCenterX - newDims.width / 2;
-             const newY = oldCenterY - newDims.height / 2;
-
-             return { ...l, ...changes, x: newX, y: newY };
-        }
-
-        return { ...l, ...changes };
-    }));
+    // Group mode turns a rotation/scale edit into a rigid transform of the whole selection,
+    // measured against the first selected layer's current values
+    if (isGroupTransform && groupPivotPoint && firstSelectedLayer && (changes.rotation !== undefined || changes.scale !== undefined)) {
+      const t = similarityAbout(
+        groupPivotPoint,
+        changes.rotation !== undefined ? normalizeAngle(changes.rotation - firstSelectedLayer.rotation) : 0,
+        changes.scale !== undefined ? changes.scale / firstSelectedLayer.scale : 1
+      );
+      setLayers((prev) => prev.map(l => selectedLayerIds.has(l.id) ? transformLayer(l, t) : l));
+      return;
+    }
+    if (changes.x !== undefined || changes.y !== undefined) releaseCenterPivot();
+    setLayers((prev) => prev.map(l => selectedLayerIds.has(l.id) ? applyLayerChanges(l, changes) : l));
   };
 
   const deleteSelectedLayers = () => {
@@ -687,18 +1498,10 @@ export default function App() {
   const fitToView = () => {
     if (layers.length === 0 || !canvasRef.current) return;
 
-    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-
-    layers.forEach(l => {
-        // Calculate bbox for current rotation/scale
-        const dims = calculateRotatedDimensions(l.width, l.height, l.rotation, l.scale);
-        minX = Math.min(minX, l.x);
-        minY = Math.min(minY, l.y);
-        maxX = Math.max(maxX, l.x + dims.width);
-        maxY = Math.max(maxY, l.y + dims.height);
-    });
-
-    if (minX === Infinity) return;
+    // Bbox for current rotation/scale of every layer
+    const bounds = getLayersBounds(layers);
+    if (!bounds) return;
+    const { minX, minY, maxX, maxY } = bounds;
 
     const contentWidth = maxX - minX;
     const contentHeight = maxY - minY;
@@ -724,49 +1527,484 @@ export default function App() {
   };
 
 
-  const prepareExport = (format: 'json' | 'csv') => {
-    if (layers.length === 0) return;
-
-    const layersToExport = checkedLayers.size > 0 
-      ? layers.filter(l => checkedLayers.has(l.id))
-      : layers;
+  const layersToExport = checkedLayers.size > 0 
+    ? layers.filter(l => checkedLayers.has(l.id))
+    : layers;
 
+  const prepareExport = (format: ExportFormat) => {
     if (layersToExport.length === 0) return;
+    setExportModal({ show: true, format });
+  };
 
-    let content = '';
-    let type = '';
-    let filename = '';
-
-    if (format === 'json') {
-      const data: ExportData[] = layersToExport.map((layer, index) => ({
-        filename: layer.name,
-        shift_x: Math.round(layer.x),
-        shift_y: Math.round(layer.y),
-        rotate: Math.round(layer.rotation * 100) / 100,
-        layer_order: index
-      }));
-      content = JSON.stringify(data, null, 2);
-      type = 'application/json';
-      filename = 'stitching_data.json';
+  // --- Align & Distribute ---
+  // Each command is a single undo step
+
+  const alignSelected = (edge: AlignEdge) => {
+    addToHistory();
+    setLayers(alignLayers(layers, selectedLayerIds, edge));
+  };
+
+  const distributeSelected = (axis: DistributeAxis, mode: DistributeMode) => {
+    addToHistory();
+    setLayers(distributeLayers(layers, selectedLayerIds, axis, mode));
+  };
+
+  // --- Grid Layout ---
+  // Capture order follows the filenames (natural sort, so tile_2 comes before tile_10)
+
+  const gridLayoutLayers = layers
+    .filter(l => selectedLayerIds.has(l.id))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+
+  const applyGridLayout = (options: GridOptions) => {
+    addToHistory();
+    const result = arrangeGrid(layers, gridLayoutLayers, options);
+    setLayers(result.layers);
+    setShowGridLayout(false);
+  };
+
+  // --- Artboard ---
+  // Output rectangle for exports and composites; not part of the layer undo history, except
+  // that undoing Normalize to Origin moves it back with the layers
+
+  const boundsToArtboard = (b: Bounds): Artboard => {
+    const x = Math.floor(b.minX);
+    const y = Math.floor(b.minY);
+    return { x, y, width: Math.max(1, Math.ceil(b.maxX) - x), height: Math.max(1, Math.ceil(b.maxY) - y) };
+  };
+
+  const fitArtboard = (source: 'all' | 'checked') => {
+    const bounds = getLayersBounds(source === 'checked' ? layers.filter(l => checkedLayers.has(l.id)) : layers.filter(l => l.visible));
+    if (bounds) setArtboard(boundsToArtboard(bounds));
+  };
+
+  const updateArtboard = (changes: Partial<Artboard>) => {
+    if (!artboard) return;
+    const next = { ...artboard, ...changes };
+    setArtboard({
+      x: Math.round(next.x),
+      y: Math.round(next.y),
+      width: Math.max(1, Math.round(next.width)),
+      height: Math.max(1, Math.round(next.height))
+    });
+  };
+
+  // Moves everything (layers, artboard, guides and measurements) so the artboard or, without
+  // one, the visible layers' bounds, as for Fit All, start at (0, 0)
+  const normalizeToOrigin = () => {
+    const bounds = getLayersBounds(layers.filter(l => l.visible));
+    if (!bounds) return;
+    const dx = -(artboard ? artboard.x : bounds.minX);
+    const dy = -(artboard ? artboard.y : bounds.minY);
+    if (dx === 0 && dy === 0) return;
+    addToHistory({ x: dx, y: dy });
+    setLayers(prev => prev.map(l => ({ ...l, x: l.x + dx, y: l.y + dy })));
+    shiftScene({ x: dx, y: dy });
+  };
+
+  const handleArtboardHandleMouseDown = (e: React.MouseEvent, anchor: Coordinates) => {
+    if (e.button !== 0 || isSpacePressed) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setArtboardDrag({ anchor });
+  };
+
+  // --- Guides ---
+  // Dragged out of the rulers (the top ruler makes horizontal 'y' guides) and dropped back
+  // onto them to delete. Like the artboard, guides are not part of the layer undo history
+  // beyond following Normalize to Origin.
+
+  const createGuide = (axis: Guide['axis'], position: number): Guide => ({
+    id: Math.random().toString(36).substr(2, 9),
+    axis,
+    position: Math.round(position)
+  });
+
+  const handleRulerMouseDown = (e: React.MouseEvent, axis: Guide['axis']) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const p = screenToCanvas(e.clientX, e.clientY);
+    const guide = createGuide(axis, axis === 'x' ? p.x : p.y);
+    setGuides(prev => [...prev, guide]);
+    setGuideDrag({ id: guide.id, axis, remove: true });
+    setShowGuides(true);
+  };
+
+  const handleGuideMouseDown = (e: React.MouseEvent, guide: Guide) => {
+    if (e.button !== 0 || isSpacePressed || guide.locked) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setGuideDrag({ id: guide.id, axis: guide.axis, remove: false });
+  };
+
+  // New guides from the panel start in the middle of the view
+  const addGuide = (axis: Guide['axis']) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    const center = screenToCanvas((rect?.left || 0) + (rect?.width || 0) / 2, (rect?.top || 0) + (rect?.height || 0) / 2);
+    setGuides(prev => [...prev, createGuide(axis, axis === 'x' ? center.x : center.y)]);
+    setShowGuides(true);
+  };
+
+  const updateGuide = (id: string, changes: Partial<Guide>) => {
+    setGuides(prev => prev.map(g => g.id === id ? { ...g, ...changes } : g));
+  };
+
+  // --- Measure ---
+  // View-only like the compare modes: measurements are not saved, the calibration is.
+
+  const addMeasurePoint = (point: Coordinates) => {
+    const points = [...measureDraft, point];
+    if (points.length < MEASURE_POINT_COUNT[measureMode]) {
+      setMeasureDraft(points);
+      return;
+    }
+    setMeasurements(prev => [...prev, { id: Math.random().toString(36).substr(2, 9), mode: measureMode, points }]);
+    setMeasureDraft([]);
+  };
+
+  const changeMeasureMode = (mode: MeasureMode) => {
+    setMeasureMode(mode);
+    setMeasureDraft([]);
+  };
+
+  const clearMeasurements = () => {
+    setMeasurements([]);
+    setMeasureDraft([]);
+  };
+
+  const lastDistance = [...measurements].reverse().find(m => m.mode === 'distance');
+
+  const calibrateFromLastDistance = () => {
+    if (!lastDistance || calibrationLength === '') return;
+    const { distance } = measureDistance(lastDistance.points[0], lastDistance.points[1]);
+    const next = calibrateFromDistance(distance, calibrationLength, calibrationUnit);
+    if (!next) {
+      setCalibrationError('Enter a positive known length, and measure a distance longer than zero.');
+      return;
+    }
+    setCalibrationError(null);
+    setCalibration(next);
+  };
+
+  // --- Straighten ---
+  // The line drawn along a feature is rotated onto the nearer axis. In group mode the whole
+  // selection turns about the group pivot; otherwise every selected layer turns about its own
+  // centre by the same correction, keeping the differences between their angles.
+
+  const applyStraighten = (line: { start: Coordinates; end: Coordinates }) => {
+    if (!firstSelectedLayer) return;
+    const { distance } = measureDistance(line.start, line.end);
+    if (distance * zoom < MIN_STRAIGHTEN_LENGTH) return;
+    const delta = getStraightenRotation(line.start, line.end);
+    if (isGroupTransform) {
+      updateSelectedLayers({ rotation: normalizeAngle(firstSelectedLayer.rotation + delta) });
     } else {
-      const headers = ['filename', 'shift_x', 'shift_y', 'rotate', 'layer_order'];
-      const rows = layersToExport.map((layer, index) => [
-        `"${layer.name.replace(/"/g, '""')}"`,
-        Math.round(layer.x),
-        Math.round(layer.y),
-        Math.round(layer.rotation * 100) / 100,
-        index
-      ]);
-      content = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
-      type = 'text/csv';
-      filename = 'stitching_data.csv';
+      addToHistory();
+      setLayers(prev => prev.map(l => selectedLayerIds.has(l.id)
+        ? applyLayerChanges(l, { rotation: normalizeAngle(l.rotation + delta) })
+        : l));
     }
+    setActiveTool('select');
+  };
+
+  // --- Alignment ---
+  // The first selected layer is the reference; the second one is moved onto it
+
+  const getAlignmentPair = () => {
+    const [referenceId, movingId] = Array.from(selectedLayerIds);
+    const reference = layers.find(l => l.id === referenceId);
+    const moving = layers.find(l => l.id === movingId);
+    return reference && moving ? { reference, moving } : null;
+  };
+
+  const runAutoAlign = async () => {
+    const pair = getAlignmentPair();
+    if (!pair) return;
+    setIsAligning(true);
+    try {
+      const result = await featureAlign(pair.reference, pair.moving, alignModel);
+      addToHistory();
+      setLayers(prev => prev.map(l => l.id === pair.moving.id ? result.layer : l));
+      setAlignReport({
+        title: 'Auto Align',
+        layerName: pair.moving.name,
+        stats: [
+          { label: 'Inliers', value: `${result.inliers} / ${result.matches}` },
+          { label: 'RMS Error', value: `${result.rmsError.toFixed(2)} px` },
+          { label: 'Rotation', value: `${result.transform.rotation >= 0 ? '+' : ''}${result.transform.rotation.toFixed(3)}°` },
+          { label: 'Scale', value: `×${result.transform.scale.toFixed(4)}` }
+        ]
+      });
+    } catch (err) {
+      setAlignReport({ title: 'Auto Align', layerName: pair.moving.name, stats: [], error: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setIsAligning(false);
+    }
+  };
+
+  const runPhaseCorrelation = async () => {
+    const pair = getAlignmentPair();
+    if (!pair) return;
+    setIsAligning(true);
+    try {
+      const result = await phaseAlign(pair.reference, pair.moving, phaseRotation);
+      addToHistory();
+      setLayers(prev => prev.map(l => l.id === pair.moving.id ? result.layer : l));
+      const stats = [
+        { label: 'Offset X', value: `${result.dx >= 0 ? '+' : ''}${result.dx.toFixed(2)} px` },
+        { label: 'Offset Y', value: `${result.dy >= 0 ? '+' : ''}${result.dy.toFixed(2)} px` },
+        { label: 'Peak', value: result.peak.toFixed(3) }
+      ];
+      if (result.rotationPeak !== undefined) {
+        stats.push(
+          { label: 'Rotation', value: `${result.rotation >= 0 ? '+' : ''}${result.rotation.toFixed(3)}°` },
+          { label: 'Rotation Peak', value: result.rotationPeak.toFixed(3) }
+        );
+      }
+      setAlignReport({ title: 'Phase Correlation', layerName: pair.moving.name, stats });
+    } catch (err) {
+      setAlignReport({ title: 'Phase Correlation', layerName: pair.moving.name, stats: [], error: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setIsAligning(false);
+    }
+  };
+
+  // --- Exposure ---
+
+  // Edits only the given fields, so layers with different adjustments keep the rest
+  const updateSelectedExposure = (changes: (current: ExposureAdjustment) => Partial<ExposureAdjustment>) => {
+    addToHistory();
+    setLayers(prev => prev.map(l => {
+      if (!selectedLayerIds.has(l.id)) return l;
+      const current = getExposure(l);
+      return setLayerExposure(l, { ...current, ...changes(current) });
+    }));
+  };
+
+  // The first selected layer is the reference; every other selected layer is matched to it
+  const runMatchExposure = async () => {
+    const reference = firstSelectedLayer;
+    const others = layers.filter(l => selectedLayerIds.has(l.id) && l.id !== firstSelectedId);
+    if (!reference || others.length === 0) return;
+    const layerName = others.length === 1 ? others[0].name : `${others.length} layers`;
+    setIsAligning(true);
+    try {
+      const results = await Promise.all(others.map(layer => matchExposure(reference, layer)));
+      addToHistory();
+      setLayers(prev => prev.map(l => results.find(r => r.layer.id === l.id)?.layer ?? l));
+      const formatGain = (gain: number[]) => gain.map((g, i) => `${'RGB'[i]}×${g.toFixed(3)}`).join(' ');
+      const stats = results.length === 1
+        ? [
+            ...results[0].gain.map((g, i) => ({ label: `Gain ${'RGB'[i]}`, value: `×${g.toFixed(3)}` })),
+            { label: 'Samples', value: `${results[0].samples} px` }
+          ]
+        : results.map(r => ({ label: r.layer.name, value: formatGain(r.gain) }));
+      setAlignReport({ title: 'Match Exposure', layerName, stats, action: 'adjust' });
+    } catch (err) {
+      setAlignReport({ title: 'Match Exposure', layerName, stats: [], error: err instanceof Error ? err.message : String(err), action: 'adjust' });
+    } finally {
+      setIsAligning(false);
+    }
+  };
+
+  // --- Layout Import ---
+
+  const handleLayoutFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (layoutInputRef.current) layoutInputRef.current.value = '';
+    if (!file) return;
+
+    const text = await file.text();
+    const { records, errors } = parseLayout(text, detectLayoutFormat(file.name, text));
+    setLayoutImport({ filename: file.name, result: applyLayout(layers, records, errors) });
+  };
+
+  const applyLayoutImport = () => {
+    if (!layoutImport) return;
+    addToHistory();
+    setLayers(layoutImport.result.layers);
+    setLayoutImport(null);
+  };
+
+  // --- Project Save / Open ---
+
+  const handleSaveProject = async () => {
+    if (layers.length === 0) return;
+    try {
+      const blob = await saveProject({ layers, checkedLayers, angleStep, artboard, guides, calibration, zoom, pan });
+      downloadBlob(blob, `stitching_project${PROJECT_EXTENSION}`);
+    } catch (err) {
+      setProjectError({ action: 'save', message: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (projectInputRef.current) projectInputRef.current.value = '';
+    if (!file) return;
+
+    try {
+      const project = await openProject(file);
+      // History is reset below, so the old blob URLs can no longer be reached
+      layers.forEach(l => URL.revokeObjectURL(l.imageUrl));
+      setLayers(project.layers);
+      setCheckedLayers(project.checkedLayers);
+      setSelectedLayerIds(new Set());
+      setHistory([]);
+      setFuture([]);
+      setAngleStep(project.angleStep);
+      setArtboard(project.artboard);
+      setGuides(project.guides);
+      setCalibration(project.calibration);
+      setZoom(project.zoom);
+      setPan(project.pan);
+    } catch (err) {
+      setProjectError({ action: 'open', message: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  // --- Crash Recovery ---
+
+  const restoreSession = () => {
+    if (!pendingRecovery) return;
+    setLayers(pendingRecovery.layers);
+    setHistory(pendingRecovery.history);
+    setFuture(pendingRecovery.future);
+    setCheckedLayers(new Set(pendingRecovery.checkedLayers));
+    setSelectedLayerIds(new Set());
+    setArtboard(pendingRecovery.artboard ?? null);
+    setGuides(pendingRecovery.guides ?? []);
+    setCalibration(pendingRecovery.calibration ?? null);
+    setZoom(pendingRecovery.zoom);
+    setPan(pendingRecovery.pan);
+    setPendingRecovery(null);
+    setAutosaveReady(true);
+  };
+
+  const discardSession = () => {
+    if (pendingRecovery) {
+      [pendingRecovery.layers, ...[...pendingRecovery.history, ...pendingRecovery.future].map(entry => entry.layers)]
+        .forEach(snapshot => snapshot.forEach(l => URL.revokeObjectURL(l.imageUrl)));
+    }
+    clearSession().catch(err => setAutosaveError(`Could not clear the autosaved session: ${err instanceof Error ? err.message : err}`));
+    setPendingRecovery(null);
+    setAutosaveReady(true);
+  };
+
+  // --- Control Points ---
+
+  const controlPointPair = selectedLayerIds.size === 2 ? getAlignmentPair() : null;
+  const controlPointSolution = controlPointPair
+    ? solveControlPoints(controlPointPair.reference, controlPointPair.moving, alignModel)
+    : null;
+
+  // Viewport (client) position -> canvas coordinates
+  const screenToCanvas = (clientX: number, clientY: number): Coordinates => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    return {
+      x: (clientX - (rect?.left || 0) - pan.x) / zoom,
+      y: (clientY - (rect?.top || 0) - pan.y) / zoom
+    };
+  };
 
-    setExportModal({
-        show: true,
-        data: content,
-        filename,
-        type
+  // Places a point on the current target layer, whichever layer is on top at the cursor
+  const addControlPoint = (clientX: number, clientY: number) => {
+    if (!controlPointPair) return;
+    const layer = controlPointPair[controlPointTarget];
+    const other = controlPointTarget === 'reference' ? controlPointPair.moving : controlPointPair.reference;
+    const source = canvasToSource(layer, screenToCanvas(clientX, clientY));
+    if (!isInsideCrop(layer, source)) return;
+    const point = createControlPoint(nextControlPointName(layer, other), source.x, source.y);
+    updateLayer(layer.id, { controlPoints: [...(layer.controlPoints || []), point] });
+    setControlPointTarget(controlPointTarget === 'reference' ? 'moving' : 'reference');
+  };
+
+  const removeControlPointPair = (name: string) => {
+    if (!controlPointPair) return;
+    const pairIds = [controlPointPair.reference.id, controlPointPair.moving.id];
+    addToHistory();
+    setLayers(prev => prev.map(l => pairIds.includes(l.id)
+      ? { ...l, controlPoints: (l.controlPoints || []).filter(p => p.name !== name) }
+      : l));
+  };
+
+  const applyControlPoints = () => {
+    if (!controlPointPair || !controlPointSolution) return;
+    const moved = applyControlPointSolution(controlPointPair.moving, controlPointSolution);
+    addToHistory();
+    setLayers(prev => prev.map(l => l.id === moved.id ? moved : l));
+  };
+
+  const handlePointMouseDown = (e: React.MouseEvent, layerId: string, pointId: string) => {
+    if (e.button !== 0 || isSpacePressed) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDraggingPoint({ layerId, pointId, moved: false });
+  };
+
+  // --- Crop ---
+  // Crops live in source pixels; changing one never moves the visible pixels on the canvas
+
+  const updateSelectedCrop = (crop: CropRect | undefined) => {
+    if (!firstSelectedLayer) return;
+    addToHistory();
+    setLayers(prev => prev.map(l => l.id === firstSelectedLayer.id ? setLayerCrop(l, crop) : l));
+  };
+
+  // Outline of a source-space rectangle on the canvas, as an SVG path
+  const sourceRectPath = (layer: Layer, r: CropRect) =>
+    [[r.x, r.y], [r.x + r.width, r.y], [r.x + r.width, r.y + r.height], [r.x, r.y + r.height]]
+      .map(([x, y], i) => {
+        const p = sourceToCanvas(layer, { x, y });
+        return `${i === 0 ? 'M' : 'L'}${p.x},${p.y}`;
+      })
+      .join(' ') + ' Z';
+
+  // --- Transform Gizmo ---
+  // Corner handles scale and the knob rotates each selected layer about its own centre;
+  // the selection centre is only the reference for the cursor. In group mode the selection
+  // turns as one rigid body around the group pivot instead.
+
+  const selectedBounds = getLayersBounds(layers.filter(l => l.visible && selectedLayerIds.has(l.id)));
+  const isGroupTransform = groupTransform && selectedLayerIds.size > 1;
+  const selectionCenter = selectedBounds && {
+    x: (selectedBounds.minX + selectedBounds.maxX) / 2,
+    y: (selectedBounds.minY + selectedBounds.maxY) / 2
+  };
+  const groupPivotPoint = groupPivot?.point ?? selectionCenter;
+
+  // Moving the selection makes a frozen centre stale; a placed pivot stays where it was put
+  const releaseCenterPivot = () => setGroupPivot(prev => prev?.placed ? prev : null);
+
+  const handlePivotMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0 || isSpacePressed) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDraggingPivot(true);
+  };
+
+  const handleGizmoMouseDown = (e: React.MouseEvent, mode: GizmoDrag['mode']) => {
+    if (e.button !== 0 || isSpacePressed || !selectedBounds) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const center = isGroupTransform && groupPivotPoint ? groupPivotPoint : {
+      x: (selectedBounds.minX + selectedBounds.maxX) / 2,
+      y: (selectedBounds.minY + selectedBounds.maxY) / 2
+    };
+    const p = screenToCanvas(e.clientX, e.clientY);
+    const initial: Record<string, Layer> = {};
+    layers.forEach(l => {
+      if (selectedLayerIds.has(l.id)) initial[l.id] = l;
+    });
+    addToHistory();
+    setGizmoDrag({
+      mode,
+      group: isGroupTransform,
+      center,
+      startAngle: Math.atan2(p.y - center.y, p.x - center.x),
+      startDistance: Math.max(1e-6, Math.hypot(p.x - center.x, p.y - center.y)),
+      initial
     });
   };
 
@@ -793,6 +2031,45 @@ export default function App() {
       return;
     }
 
+    // Measure: every left click places the next point, on layers or empty canvas alike
+    if (activeTool === 'measure') {
+      if (e.button === 0) {
+        e.stopPropagation();
+        addMeasurePoint(screenToCanvas(e.clientX, e.clientY));
+      }
+      return;
+    }
+
+    // Straighten: drag a line along a feature anywhere on the canvas
+    if (activeTool === 'straighten') {
+      if (e.button === 0) {
+        e.stopPropagation();
+        const p = screenToCanvas(e.clientX, e.clientY);
+        setStraightenLine({ start: p, end: p });
+      }
+      return;
+    }
+
+    // Crop: drag a rectangle over the (temporarily uncropped) selected layer
+    if (activeTool === 'crop') {
+      const target = layers.find(l => l.id === layerId);
+      if (target && e.button === 0 && selectedLayerIds.has(target.id)) {
+        e.stopPropagation();
+        addToHistory();
+        setCropDrag({ layerId: target.id, start: canvasToSource(target, screenToCanvas(e.clientX, e.clientY)) });
+      }
+      return;
+    }
+
+    // Control point placement: hit-tested against the target layer of the pair, not the DOM
+    if (activeTool === 'controlPoints') {
+      if (e.button === 0 && controlPointPair) {
+        e.stopPropagation();
+        addControlPoint(e.clientX, e.clientY);
+      }
+      return;
+    }
+
     // Case 2: Layer Interaction
     if (layerId) {
       e.stopPropagation(); 
@@ -847,6 +2124,123 @@ export default function App() {
   };
 
   const handleMouseMove = useCallback((e: MouseEvent) => {
+    // Tracked on every move (including drags) so the loupe follows the cursor
+    if (showLoupe) {
+      const rect = canvasRef.current?.getBoundingClientRect();
+      const inside = rect && e.clientX >= rect.left && e.clientX < rect.right && e.clientY >= rect.top && e.clientY < rect.bottom;
+      setLoupePointer(rect && inside ? { x: e.clientX - rect.left, y: e.clientY - rect.top } : null);
+    }
+
+    if (activeTool === 'measure' && measureDraft.length > 0) {
+      setMeasurePointer(screenToCanvas(e.clientX, e.clientY));
+    }
+
+    if (draggingPoint) {
+      // History is recorded on the first move so a plain click on a point leaves no undo step
+      if (!draggingPoint.moved) {
+        addToHistory();
+        setDraggingPoint({ ...draggingPoint, moved: true });
+      }
+      const rect = canvasRef.current?.getBoundingClientRect();
+      const canvasPoint = {
+        x: (e.clientX - (rect?.left || 0) - pan.x) / zoom,
+        y: (e.clientY - (rect?.top || 0) - pan.y) / zoom
+      };
+      setLayers(prev => prev.map(l => {
+        if (l.id !== draggingPoint.layerId) return l;
+        const source = canvasToSource(l, canvasPoint);
+        return {
+          ...l,
+          controlPoints: (l.controlPoints || []).map(p => p.id === draggingPoint.pointId ? { ...p, x: source.x, y: source.y } : p)
+        };
+      }));
+      return;
+    }
+
+    if (gizmoDrag) {
+      const p = screenToCanvas(e.clientX, e.clientY);
+      const { center, initial } = gizmoDrag;
+      const ids = Object.keys(initial);
+      if (gizmoDrag.group) {
+        const delta = ((Math.atan2(p.y - center.y, p.x - center.x) - gizmoDrag.startAngle) * 180) / Math.PI;
+        const step = e.shiftKey ? ROTATION_SNAP : angleStep;
+        const t = gizmoDrag.mode === 'scale'
+          ? similarityAbout(center, 0, Math.round((Math.hypot(p.x - center.x, p.y - center.y) / gizmoDrag.startDistance) * 1000) / 1000)
+          : similarityAbout(center, parseFloat((Math.round(delta / step) * step).toFixed(6)), 1);
+        setLayers(prev => prev.map(l => initial[l.id] ? transformLayer(initial[l.id], t) : l));
+        return;
+      }
+      if (gizmoDrag.mode === 'scale') {
+        const factor = Math.hypot(p.x - center.x, p.y - center.y) / gizmoDrag.startDistance;
+        setLayers(prev => prev.map(l => initial[l.id]
+          ? applyLayerChanges(initial[l.id], { scale: Math.max(0.01, Math.round(initial[l.id].scale * factor * 1000) / 1000) })
+          : l));
+      } else {
+        const delta = ((Math.atan2(p.y - center.y, p.x - center.x) - gizmoDrag.startAngle) * 180) / Math.PI;
+        const step = e.shiftKey ? ROTATION_SNAP : angleStep;
+        const quantize = (value: number) => parseFloat((Math.round(value / step) * step).toFixed(6));
+        setLayers(prev => prev.map(l => {
+          const start = initial[l.id];
+          if (!start) return l;
+          // A single layer snaps to absolute angles; a group keeps its relative rotations
+          const rotation = ids.length === 1 ? quantize(start.rotation + delta) : start.rotation + quantize(delta);
+          return applyLayerChanges(start, { rotation: normalizeAngle(rotation) });
+        }));
+      }
+      return;
+    }
+
+    if (cropDrag) {
+      setLayers(prev => prev.map(l => {
+        if (l.id !== cropDrag.layerId) return l;
+        const end = canvasToSource(l, screenToCanvas(e.clientX, e.clientY));
+        return setLayerCrop(l, normalizeCrop(l, cropDrag.start, end));
+      }));
+      return;
+    }
+
+    if (draggingPivot) {
+      setGroupPivot({ point: screenToCanvas(e.clientX, e.clientY), placed: true });
+      return;
+    }
+
+    if (straightenLine) {
+      setStraightenLine({ ...straightenLine, end: screenToCanvas(e.clientX, e.clientY) });
+      return;
+    }
+
+    if (guideDrag) {
+      const rect = canvasRef.current?.getBoundingClientRect();
+      const p = screenToCanvas(e.clientX, e.clientY);
+      updateGuide(guideDrag.id, { position: Math.round(guideDrag.axis === 'x' ? p.x : p.y) });
+      const overRuler = showRulers && (guideDrag.axis === 'x'
+        ? e.clientX - (rect?.left || 0) < RULER_SIZE
+        : e.clientY - (rect?.top || 0) < RULER_SIZE);
+      if (overRuler !== guideDrag.remove) setGuideDrag({ ...guideDrag, remove: overRuler });
+      return;
+    }
+
+    if (artboardDrag) {
+      const p = screenToCanvas(e.clientX, e.clientY);
+      const { anchor } = artboardDrag;
+      setArtboard(boundsToArtboard({
+        minX: Math.min(anchor.x, p.x),
+        minY: Math.min(anchor.y, p.y),
+        maxX: Math.max(anchor.x, p.x),
+        maxY: Math.max(anchor.y, p.y)
+      }));
+      return;
+    }
+
+    if (swipeDrag) {
+      const rect = canvasRef.current?.getBoundingClientRect();
+      const t = swipeOrientation === 'vertical'
+        ? ((e.clientX - (rect?.left || 0) - pan.x) / zoom - swipeDrag.minX) / (swipeDrag.maxX - swipeDrag.minX)
+        : ((e.clientY - (rect?.top || 0) - pan.y) / zoom - swipeDrag.minY) / (swipeDrag.maxY - swipeDrag.minY);
+      setSwipePosition(Math.max(0, Math.min(1, t)));
+      return;
+    }
+
     if (isDraggingCanvas) {
       const dx = e.clientX - dragStart.x;
       const dy = e.clientY - dragStart.y;
@@ -858,8 +2252,24 @@ export default function App() {
     }
 
     if (isDraggingLayer) {
-      const dx = (e.clientX - dragStart.x) / zoom;
-      const dy = (e.clientY - dragStart.y) / zoom;
+      let dx = (e.clientX - dragStart.x) / zoom;
+      let dy = (e.clientY - dragStart.y) / zoom;
+
+      // Snap the selection's bounding box; holding Alt moves freely
+      const moving = layers.filter(l => initialLayerPositions[l.id]).map(l => ({ ...l, ...initialLayerPositions[l.id] }));
+      const movingBounds = getLayersBounds(moving);
+      if (snapEnabled && !e.altKey && movingBounds) {
+        const snap = snapBounds(
+          { minX: movingBounds.minX + dx, minY: movingBounds.minY + dy, maxX: movingBounds.maxX + dx, maxY: movingBounds.maxY + dy },
+          getSnapTargets(layers, selectedLayerIds, showGuides, showGuides ? guides : []),
+          snapDistance / zoom
+        );
+        dx += snap.dx;
+        dy += snap.dy;
+        setSnapLines(snap.lines);
+      } else {
+        setSnapLines([]);
+      }
       
       setLayers(prev => prev.map(l => {
         if (initialLayerPositions[l.id]) {
@@ -890,7 +2300,7 @@ export default function App() {
         
         layers.forEach(l => {
             // Get Axis-Aligned Bounding Box
-            const dims = calculateRotatedDimensions(l.width, l.height, l.rotation, l.scale);
+            const dims = getLayerDimensions(l);
             const lx = l.x * zoom + pan.x;
             const ly = l.y * zoom + pan.y;
             const lw = dims.width * zoom;
@@ -905,14 +2315,26 @@ export default function App() {
         setSelectedLayerIds(newSelected);
     }
 
-  }, [isDraggingCanvas, isDraggingLayer, isSelecting, selectionBox, dragStart, initialPan, initialLayerPositions, zoom, pan, layers, selectedLayerIds]);
+  }, [isDraggingCanvas, isDraggingLayer, isSelecting, selectionBox, dragStart, initialPan, initialLayerPositions, zoom, pan, layers, selectedLayerIds, draggingPoint, swipeDrag, swipeOrientation, showLoupe, snapEnabled, snapDistance, showGuides, gizmoDrag, angleStep, draggingPivot, cropDrag, artboardDrag, guideDrag, guides, showRulers, activeTool, measureDraft.length, straightenLine]);
 
   const handleMouseUp = useCallback(() => {
+    if (straightenLine) applyStraighten(straightenLine);
+    setStraightenLine(null);
+    if (guideDrag?.remove) setGuides(prev => prev.filter(g => g.id !== guideDrag.id));
+    setGuideDrag(null);
+    setDraggingPoint(null);
+    setSwipeDrag(null);
+    setSnapLines([]);
+    setGizmoDrag(null);
+    setDraggingPivot(false);
+    setCropDrag(null);
+    setArtboardDrag(null);
     setIsDraggingCanvas(false);
+    if (isDraggingLayer) releaseCenterPivot();
     setIsDraggingLayer(false);
     setIsSelecting(false);
     setSelectionBox(null);
-  }, []);
+  }, [guideDrag, straightenLine, isDraggingLayer]);
 
   const handleWheel = (e: React.WheelEvent) => {
     if (e.ctrlKey || e.metaKey) {
@@ -923,11 +2345,101 @@ export default function App() {
     }
   };
 
+  // Alternate the compared layers while flickering
+  useEffect(() => {
+    if (compareMode !== 'flicker') return;
+    const timer = setInterval(() => setFlickerIndex(i => i + 1), FLICKER_INTERVAL);
+    return () => clearInterval(timer);
+  }, [compareMode]);
+
+  // A pivot belongs to the selection it was frozen or placed for
+  useEffect(() => {
+    setGroupPivot(null);
+  }, [selectedLayerIds]);
+
+  // Freeze the selection centre as the pivot while group mode is on
+  useEffect(() => {
+    if (!isGroupTransform) {
+      if (groupPivot) setGroupPivot(null);
+    } else if (!groupPivot && selectionCenter) {
+      setGroupPivot({ point: selectionCenter, placed: false });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isGroupTransform, groupPivot]);
+
+  // Placement tools need a specific selection; drop back to select when it changes
+  useEffect(() => {
+    if (activeTool === 'controlPoints' && selectedLayerIds.size !== 2) setActiveTool('select');
+    if (activeTool === 'crop' && selectedLayerIds.size !== 1) setActiveTool('select');
+    if (activeTool === 'straighten' && selectedLayerIds.size === 0) setActiveTool('select');
+  }, [activeTool, selectedLayerIds]);
+
+  // A new pair starts placing on the reference layer
+  useEffect(() => {
+    setControlPointTarget('reference');
+  }, [selectedLayerIds]);
+
+  // Leaving the measure tool drops a half-placed measurement
+  useEffect(() => {
+    if (activeTool !== 'measure') {
+      setMeasureDraft([]);
+      setMeasurePointer(null);
+    }
+  }, [activeTool]);
+
+  // Persist snapping preferences to localStorage
+  useEffect(() => {
+    localStorage.setItem('snapEnabled', String(snapEnabled));
+    localStorage.setItem('snapDistance', snapDistance.toString());
+  }, [snapEnabled, snapDistance]);
+
   // Persist angleStep to localStorage
   useEffect(() => {
     localStorage.setItem('angleStep', angleStep.toString());
   }, [angleStep]);
 
+  useEffect(() => {
+    localStorage.setItem('exportOptions', JSON.stringify(exportOptions));
+  }, [exportOptions]);
+
+  // Offer to restore an autosaved session on startup
+  useEffect(() => {
+    loadSession()
+      .then(session => {
+        if (session && session.layers.length > 0) setPendingRecovery(session);
+        else setAutosaveReady(true);
+      })
+      .catch(err => {
+        setAutosaveError(`Could not read the autosaved session: ${err instanceof Error ? err.message : err}`);
+        setAutosaveReady(true);
+      });
+  }, []);
+
+  // Autosave layers, image blobs and undo stacks to IndexedDB once edits settle
+  useEffect(() => {
+    if (!autosaveReady) return;
+    const timer = setTimeout(() => {
+      const write = layers.length === 0 && history.length === 0
+        ? clearSession()
+        : saveSession({
+            savedAt: Date.now(),
+            layers,
+            history,
+            future,
+            checkedLayers: Array.from(checkedLayers),
+            artboard,
+            guides,
+            calibration,
+            zoom,
+            pan
+          });
+      write
+        .then(() => setAutosaveError(null))
+        .catch(err => setAutosaveError(`Autosave failed: ${err instanceof Error ? err.message : err}`));
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [autosaveReady, layers, history, future, checkedLayers, artboard, guides, calibration, zoom, pan]);
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       const target = e.target as HTMLElement;
@@ -939,6 +2451,14 @@ export default function App() {
           setIsSpacePressed(true);
       }
 
+      if (e.key === 'Escape') {
+        // A half-placed measurement is dropped first, keeping the measure tool active
+        if (activeTool === 'measure' && measureDraft.length > 0) setMeasureDraft([]);
+        else setActiveTool('select');
+        setStraightenLine(null);
+        return;
+      }
+
       if ((e.ctrlKey || e.metaKey) && e.key === 'z') {
         e.preventDefault();
         if (e.shiftKey) redo();
@@ -955,6 +2475,8 @@ export default function App() {
       
       const shiftMultiplier = e.shiftKey ? 10 : 1;
       
+      if (e.key.startsWith('Arrow')) releaseCenterPivot();
+
       switch (e.key) {
         case 'ArrowUp':
           setLayers(prev => prev.map(l => selectedLayerIds.has(l.id) ? { ...l, y: l.y - 1 * shiftMultiplier } : l));
@@ -988,7 +2510,7 @@ export default function App() {
         window.removeEventListener('keydown', handleKeyDown);
         window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [selectedLayerIds, layers, checkedLayers, history, future]); 
+  }, [selectedLayerIds, layers, checkedLayers, history, future, activeTool, measureDraft]); 
 
   useEffect(() => {
     window.addEventListener('mousemove', handleMouseMove);
@@ -1031,11 +2553,73 @@ export default function App() {
   };
 
   const commonOpacity = getCommonValue('opacity');
+  const selectedLayers = layers.filter(l => selectedLayerIds.has(l.id));
+  const allFlippedX = selectedLayers.length > 0 && selectedLayers.every(l => l.flipX);
+  const allFlippedY = selectedLayers.length > 0 && selectedLayers.every(l => l.flipY);
+  const cropTarget = activeTool === 'crop' ? firstSelectedLayer : undefined;
+  const straightenRotation = straightenLine ? getStraightenRotation(straightenLine.start, straightenLine.end) : 0;
+  const firstCrop = firstSelectedLayer ? getCropRect(firstSelectedLayer) : null;
+  const firstExposure = firstSelectedLayer ? getExposure(firstSelectedLayer) : DEFAULT_EXPOSURE;
+  const isExposureMixed = (pick: (e: ExposureAdjustment) => number) =>
+    selectedLayers.some(l => pick(getExposure(l)) !== pick(firstExposure));
+  const withGain = (e: ExposureAdjustment, channel: Channel, value: number) =>
+    e.gain.map((g, i) => i === channel ? value : g) as ExposureAdjustment['gain'];
 
   // Calculate dynamic style for zoom-independent thickness
   const guideThickness = Math.max(1, 2 / zoom);
   const labelScale = 1 / zoom;
 
+  // Compare view applies to the selected layers, or to every visible layer when fewer than two are selected
+  const compareLayers = (() => {
+    if (compareMode === 'normal') return [];
+    const selected = layers.filter(l => l.visible && selectedLayerIds.has(l.id));
+    return selected.length >= 2 ? selected : layers.filter(l => l.visible);
+  })();
+
+  // Swipe splits the top two compared layers: the lower one shows left of (or above) the
+  // divider, the upper one right of (or below) it. The divider sits at a fraction of their
+  // overlap, so it follows the layers as they move.
+  const swipePair = compareMode === 'swipe' && compareLayers.length >= 2 ? compareLayers.slice(-2) : null;
+  const swipeBounds = swipePair ? getOverlapBounds(swipePair[0], swipePair[1]) || getLayersBounds(swipePair) : null;
+  const swipeCoordinate = swipeBounds
+    ? swipeOrientation === 'vertical'
+      ? swipeBounds.minX + swipePosition * (swipeBounds.maxX - swipeBounds.minX)
+      : swipeBounds.minY + swipePosition * (swipeBounds.maxY - swipeBounds.minY)
+    : 0;
+
+  const handleSwipeMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0 || isSpacePressed) return;
+    e.stopPropagation();
+    setSwipeDrag(swipeBounds);
+  };
+
+  // Blending goes on the layer box (it must composite with the layers below), tinting and hiding on the image
+  const getCompareStyles = (layer: Layer): { box: React.CSSProperties; image: React.CSSProperties } => {
+    const index = compareLayers.indexOf(layer);
+    if (index === -1) return { box: {}, image: {} };
+    switch (compareMode) {
+      case 'difference':
+        // The lowest compared layer is the base the others are subtracted from
+        return { box: index === 0 ? {} : { mixBlendMode: 'difference' }, image: {} };
+      case 'anaglyph':
+        return {
+          box: { mixBlendMode: 'screen' },
+          image: { filter: `url(#compare-${index % 2 === 0 ? 'red' : 'cyan'})` }
+        };
+      case 'flicker':
+        return { box: {}, image: flickerIndex % compareLayers.length === index ? {} : { visibility: 'hidden' } };
+      case 'swipe': {
+        if (!swipePair || layer !== swipePair[1]) return { box: {}, image: {} };
+        const inset = swipeOrientation === 'vertical'
+          ? `0 0 0 ${Math.max(0, swipeCoordinate - layer.x)}px`
+          : `${Math.max(0, swipeCoordinate - layer.y)}px 0 0 0`;
+        return { box: { clipPath: `inset(${inset})` }, image: {} };
+      }
+      default:
+        return { box: {}, image: {} };
+    }
+  };
+
   // Toggle functions for sidebar collapse
   const toggleLeftSidebar = () => {
     const newState = !leftSidebarCollapsed;
@@ -1057,9 +2641,12 @@ export default function App() {
       <ExportModal 
         isOpen={exportModal.show} 
         onClose={() => setExportModal({ ...exportModal, show: false })}
-        data={exportModal.data}
-        filename={exportModal.filename}
-        type={exportModal.type}
+        layers={layersToExport}
+        format={exportModal.format}
+        onFormatChange={(format) => setExportModal({ ...exportModal, format })}
+        options={exportOptions}
+        onOptionsChange={setExportOptions}
+        artboard={artboard}
       />
 
       <InfoModal 
@@ -1067,6 +2654,44 @@ export default function App() {
         onClose={() => setShowInfo(false)} 
       />
 
+      <CompositeModal
+        isOpen={showComposite}
+        onClose={() => setShowComposite(false)}
+        layers={layers}
+        checkedLayers={checkedLayers}
+        artboard={artboard}
+      />
+
+      <GridLayoutModal
+        isOpen={showGridLayout}
+        onClose={() => setShowGridLayout(false)}
+        selected={gridLayoutLayers}
+        onApply={applyGridLayout}
+      />
+
+      <ImportLayoutModal
+        pending={layoutImport}
+        onApply={applyLayoutImport}
+        onClose={() => setLayoutImport(null)}
+      />
+
+      <AlignResultModal
+        report={alignReport}
+        onAccept={() => setAlignReport(null)}
+        onRevert={() => { undo(); setAlignReport(null); }}
+      />
+
+      <ProjectErrorModal
+        error={projectError}
+        onClose={() => setProjectError(null)}
+      />
+
+      <RecoveryModal
+        session={pendingRecovery}
+        onRestore={restoreSession}
+        onDiscard={discardSession}
+      />
+
       {/* --- Sidebar (Left) --- */}
       {leftSidebarCollapsed ? (
         // COLLAPSED STATE
@@ -1117,6 +2742,49 @@ export default function App() {
               <Icons.FileText size={18} />
             </button>
 
+            {/* Import Layout icon */}
+            <button
+              onClick={() => layoutInputRef.current?.click()}
+              disabled={layers.length === 0}
+              className="p-3 text-slate-500 hover:text-sky-600 hover:bg-sky-50/50 rounded-xl transition-all duration-200 border border-white/40 backdrop-blur-sm disabled:opacity-30 disabled:cursor-not-allowed"
+              title="Import Layout"
+              aria-label="Import Layout"
+            >
+              <Icons.FileUp size={18} />
+            </button>
+
+            {/* Export Composite icon */}
+            <button
+              onClick={() => setShowComposite(true)}
+              disabled={layers.length === 0}
+              className="p-3 text-slate-500 hover:text-sky-600 hover:bg-sky-50/50 rounded-xl transition-all duration-200 border border-white/40 backdrop-blur-sm disabled:opacity-30 disabled:cursor-not-allowed"
+              title="Export Composite"
+              aria-label="Export Composite"
+            >
+              <Icons.Image size={18} />
+            </button>
+
+            {/* Save Project icon */}
+            <button
+              onClick={handleSaveProject}
+              disabled={layers.length === 0}
+              className="p-3 text-slate-500 hover:text-sky-600 hover:bg-sky-50/50 rounded-xl transition-all duration-200 border border-white/40 backdrop-blur-sm disabled:opacity-30 disabled:cursor-not-allowed"
+              title="Save Project"
+              aria-label="Save Project"
+            >
+              <Icons.Save size={18} />
+            </button>
+
+            {/* Open Project icon */}
+            <button
+              onClick={() => projectInputRef.current?.click()}
+              className="p-3 text-slate-500 hover:text-sky-600 hover:bg-sky-50/50 rounded-xl transition-all duration-200 border border-white/40 backdrop-blur-sm"
+              title="Open Project"
+              aria-label="Open Project"
+            >
+              <Icons.FolderOpen size={18} />
+            </button>
+
             {/* Layer count badge */}
             <div className="mt-auto">
               <div className="w-12 h-12 bg-sky-500/10 rounded-xl flex items-center justify-center border border-sky-200/40">
@@ -1135,6 +2803,20 @@ export default function App() {
             className="hidden"
             onChange={handleFileUpload}
           />
+          <input
+            type="file"
+            accept={PROJECT_EXTENSION}
+            ref={projectInputRef}
+            className="hidden"
+            onChange={handleOpenProject}
+          />
+          <input
+            type="file"
+            accept=".json,.csv"
+            ref={layoutInputRef}
+            className="hidden"
+            onChange={handleLayoutFile}
+          />
         </aside>
       ) : (
         // EXPANDED STATE
@@ -1190,7 +2872,48 @@ export default function App() {
               <Icons.FileText size={16} /> 
                {checkedLayers.size > 0 ? `Export (${checkedLayers.size})` : 'CSV'}
             </Button>
+            <Button 
+              onClick={() => layoutInputRef.current?.click()} 
+              disabled={layers.length === 0} 
+              title="Apply a JSON/CSV layout to the loaded images by filename"
+            >
+              <Icons.FileUp size={16} /> Import Layout
+            </Button>
+            <Button 
+              onClick={() => setShowComposite(true)} 
+              disabled={layers.length === 0} 
+              title="Render the stitched result to a PNG/WebP image"
+            >
+              <Icons.Image size={16} /> Composite
+            </Button>
+            <Button 
+              onClick={handleSaveProject} 
+              disabled={layers.length === 0} 
+              title="Save layers, images and view as a single project file"
+            >
+              <Icons.Save size={16} /> Save Project
+            </Button>
+            <Button 
+              onClick={() => projectInputRef.current?.click()} 
+              title={`Open a ${PROJECT_EXTENSION} project file`}
+            >
+              <Icons.FolderOpen size={16} /> Open Project
+            </Button>
           </div>
+          <input 
+            type="file" 
+            accept={PROJECT_EXTENSION} 
+            ref={projectInputRef} 
+            className="hidden" 
+            onChange={handleOpenProject} 
+          />
+          <input 
+            type="file" 
+            accept=".json,.csv" 
+            ref={layoutInputRef} 
+            className="hidden" 
+            onChange={handleLayoutFile} 
+          />
         </div>
 
         {/* Layers List */}
@@ -1324,6 +3047,77 @@ export default function App() {
             >
                 <Icons.Grid size={18} />
             </Button>
+            <Button 
+                variant={showRulers ? "secondary" : "ghost"} 
+                onClick={() => setShowRulers(!showRulers)}
+                title="Toggle Rulers (drag from a ruler to add a guide)"
+                className={`px-3 ${showRulers ? 'bg-sky-50/50 text-sky-600 border-sky-100/50' : ''}`}
+            >
+                <Icons.Ruler size={18} />
+            </Button>
+            <div
+              className="hidden lg:block"
+              title="Overlap view for the selected layers (or all visible layers). Display only; exports are unaffected."
+            >
+              <SegmentedControl options={COMPARE_OPTIONS} value={compareMode} onChange={setCompareMode} />
+            </div>
+            {compareMode === 'swipe' && (
+              <Button
+                variant="ghost"
+                onClick={() => setSwipeOrientation(o => o === 'vertical' ? 'horizontal' : 'vertical')}
+                title={`Swipe divider: ${swipeOrientation} (click to switch)`}
+                className="px-2"
+              >
+                <Icons.GripVertical size={18} className={swipeOrientation === 'horizontal' ? 'rotate-90' : ''} />
+              </Button>
+            )}
+            <Button
+                variant={snapEnabled ? "secondary" : "ghost"}
+                onClick={() => setSnapEnabled(!snapEnabled)}
+                title="Toggle Snapping (hold Alt while dragging to move freely)"
+                className={`px-3 ${snapEnabled ? 'bg-sky-50/50 text-sky-600 border-sky-100/50' : ''}`}
+            >
+                <Icons.Magnet size={18} />
+            </Button>
+            {snapEnabled && (
+              <label className="flex items-center gap-1 text-xs font-medium text-slate-500" title="Snap distance in screen pixels">
+                <input
+                  type="number"
+                  min={1}
+                  max={50}
+                  value={snapDistance}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (!isNaN(value)) setSnapDistance(Math.max(1, Math.min(50, value)));
+                  }}
+                  className="w-12 bg-white/50 border border-white/60 rounded-lg px-1.5 py-1 text-xs text-slate-700 focus:outline-none focus:ring-2 focus:ring-sky-400/30"
+                />
+                px
+              </label>
+            )}
+            <Button
+                variant={showLoupe ? "secondary" : "ghost"}
+                onClick={() => { setShowLoupe(!showLoupe); setLoupePointer(null); }}
+                title="Toggle Pixel Loupe"
+                className={`px-3 ${showLoupe ? 'bg-sky-50/50 text-sky-600 border-sky-100/50' : ''}`}
+            >
+                <Icons.Search size={18} />
+            </Button>
+            {showLoupe && (
+              <SegmentedControl
+                options={LOUPE_MAGNIFICATIONS.map(m => ({ value: m, label: `${m}x` }))}
+                value={loupeMagnification}
+                onChange={setLoupeMagnification}
+              />
+            )}
+            <Button
+                variant={activeTool === 'measure' ? "secondary" : "ghost"}
+                onClick={() => setActiveTool(activeTool === 'measure' ? 'select' : 'measure')}
+                title="Measure distances and angles"
+                className={`px-3 ${activeTool === 'measure' ? 'bg-pink-50/50 text-pink-600 border-pink-100/50' : ''}`}
+            >
+                <Icons.Measure size={18} />
+            </Button>
             <Button variant="ghost" onClick={fitToView} title="Fit to all images">
                 <Icons.Minimize size={18} /> <span className="hidden lg:inline">Fit</span>
             </Button>
@@ -1334,9 +3128,17 @@ export default function App() {
                <Icons.Info size={18} />
             </Button>
           </div>
-          <div className="text-xs font-medium text-slate-500/80 flex items-center gap-4 hidden md:flex">
-             <span className="flex items-center gap-1"><Icons.MousePointer size={14}/> Drag to Select</span>
-             <span className={`flex items-center gap-1 transition-colors px-2.5 py-1.5 rounded-lg border ${isSpacePressed ? 'bg-sky-50/80 border-sky-200/50 text-sky-600' : 'border-transparent'}`}>
+          <div className="text-xs font-medium text-slate-500/80 flex items-center gap-4">
+             {autosaveError && (
+               <span
+                 className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg border bg-amber-50/80 border-amber-200/50 text-amber-700"
+                 title={`${autosaveError}. Save a project file to keep your work.`}
+               >
+                 <Icons.AlertTriangle size={14} /> Autosave problem
+               </span>
+             )}
+             <span className="hidden md:flex items-center gap-1"><Icons.MousePointer size={14}/> Drag to Select</span>
+             <span className={`hidden md:flex items-center gap-1 transition-colors px-2.5 py-1.5 rounded-lg border ${isSpacePressed ? 'bg-sky-50/80 border-sky-200/50 text-sky-600' : 'border-transparent'}`}>
                 <span className={`bg-white/60 px-1.5 py-0.5 rounded border border-slate-200/50 text-slate-500 shadow-sm font-mono text-[10px] ${isSpacePressed ? 'border-sky-200/60 text-sky-600' : ''}`}>SPACE</span> to Pan
              </span>
           </div>
@@ -1349,6 +3151,30 @@ export default function App() {
           onMouseDown={(e) => handleMouseDown(e)}
           onWheel={handleWheel}
         >
+          {/* Channel filters for the anaglyph compare mode and layer exposure */}
+          <svg width="0" height="0" className="absolute" aria-hidden="true">
+            <filter id="compare-red" colorInterpolationFilters="sRGB">
+              <feColorMatrix type="matrix" values="1 0 0 0 0  0 0 0 0 0  0 0 0 0 0  0 0 0 1 0" />
+            </filter>
+            <filter id="compare-cyan" colorInterpolationFilters="sRGB">
+              <feColorMatrix type="matrix" values="0 0 0 0 0  0 1 0 0 0  0 0 1 0 0  0 0 0 1 0" />
+            </filter>
+            {/* Per-layer exposure compensation (see utils/exposure.ts) */}
+            {layers.filter(l => !isNeutralExposure(l.exposure)).map(layer => {
+              const exposure = getExposure(layer);
+              const [r, g, b] = ([0, 1, 2] as Channel[]).map(c => getChannelTransfer(exposure, c));
+              return (
+                <filter key={layer.id} id={getExposureFilterId(layer)} colorInterpolationFilters="sRGB">
+                  <feComponentTransfer>
+                    <feFuncR type="linear" slope={r.slope} intercept={r.intercept} />
+                    <feFuncG type="linear" slope={g.slope} intercept={g.intercept} />
+                    <feFuncB type="linear" slope={b.slope} intercept={b.intercept} />
+                  </feComponentTransfer>
+                </filter>
+              );
+            })}
+          </svg>
+
           {/* Transform Container */}
           <div 
             style={{
@@ -1398,11 +3224,16 @@ export default function App() {
                 </>
             )}
 
-            {/* Images */}
+            {/* Images (isolated so compare blend modes only mix layers with each other) */}
+            <div style={{ position: 'absolute', top: 0, left: 0, isolation: 'isolate' }}>
             {layers.map((layer) => {
                const isSelected = selectedLayerIds.has(layer.id);
-               // New rendering logic: Calculate Bounding Box dimensions based on rotation
-               const dims = calculateRotatedDimensions(layer.width, layer.height, layer.rotation, layer.scale);
+               // While cropping, the whole image is shown so the crop can also grow again
+               const shown = activeTool === 'crop' && isSelected ? setLayerCrop(layer, undefined) : layer;
+               const crop = getCropRect(shown);
+               // New rendering logic: Calculate Bounding Box dimensions based on rotation (of the cropped size)
+               const dims = getLayerDimensions(shown);
+               const compareStyles = getCompareStyles(layer);
                
                return layer.visible && (
                 <div
@@ -1411,42 +3242,56 @@ export default function App() {
                   style={{
                     position: 'absolute',
                     // The layer's X,Y now corresponds to the top-left of the BOUNDING BOX
-                    left: layer.x,
-                    top: layer.y,
+                    left: shown.x,
+                    top: shown.y,
                     width: dims.width,
                     height: dims.height,
                     zIndex: layers.indexOf(layer), 
-                    cursor: isDraggingLayer && isSelected ? 'grabbing' : isSpacePressed ? 'grab' : 'move',
+                    cursor: isDraggingLayer && isSelected ? 'grabbing' : isSpacePressed ? 'grab' : activeTool !== 'select' ? 'crosshair' : 'move',
                     // Outline the Bounding Box
                     outline: isSelected ? `${Math.max(2, 2/zoom)}px solid #0ea5e9` : 'none', 
                     boxShadow: isSelected ? `0 0 0 ${Math.max(4, 4/zoom)}px rgba(14, 165, 233, 0.2)` : 'none',
                     transition: isDraggingLayer ? 'none' : 'box-shadow 0.2s',
+                    ...compareStyles.box
                   }}
                   className="select-none"
                 >
-                  {/* Rotated Image Inner Container */}
-                  <img 
-                    src={layer.imageUrl} 
-                    alt={layer.name}
-                    className="pointer-events-none block absolute" 
-                    draggable={false}
+                  {/* Rotated Image Inner Container (clips the image to its crop) */}
+                  <div
+                    className="pointer-events-none absolute overflow-hidden"
                     style={{
-                        // Center the image within the bounding box
+                        // Center the crop within the bounding box
                         left: '50%',
                         top: '50%',
-                        width: `${layer.width * layer.scale}px`,
-                        height: `${layer.height * layer.scale}px`,
+                        width: `${crop.width * layer.scale}px`,
+                        height: `${crop.height * layer.scale}px`,
                         // Rotate around its own center
-                        transform: `translate(-50%, -50%) rotate(${layer.rotation}deg)`,
+                        // Flip first (rightmost), then rotate, matching getAffineMatrix
+                        transform: `translate(-50%, -50%) rotate(${layer.rotation}deg) scale(${layer.flipX ? -1 : 1}, ${layer.flipY ? -1 : 1})`,
                         transformOrigin: 'center',
                         opacity: layer.opacity,
-                        maxWidth: 'none',
-                        maxHeight: 'none',
-                        minWidth: '0',
-                        minHeight: '0',
-                        objectFit: 'fill',
+                        ...compareStyles.image
                     }}
-                  />
+                  >
+                    <img 
+                      src={layer.imageUrl} 
+                      alt={layer.name}
+                      className="block absolute" 
+                      draggable={false}
+                      style={{
+                          left: `${-crop.x * layer.scale}px`,
+                          top: `${-crop.y * layer.scale}px`,
+                          width: `${layer.width * layer.scale}px`,
+                          height: `${layer.height * layer.scale}px`,
+                          maxWidth: 'none',
+                          maxHeight: 'none',
+                          minWidth: '0',
+                          minHeight: '0',
+                          objectFit: 'fill',
+                          filter: isNeutralExposure(layer.exposure) ? undefined : `url(#${getExposureFilterId(layer)})`
+                      }}
+                    />
+                  </div>
                   
                   {isSelected && (
                     <div 
@@ -1460,13 +3305,466 @@ export default function App() {
                        <span>X: {Math.round(layer.x)}</span>
                        <span className="opacity-50">|</span>
                        <span>Y: {Math.round(layer.y)}</span>
+                       {gizmoDrag && (
+                         <>
+                           <span className="opacity-50">|</span>
+                           <span>{layer.rotation.toFixed(1)}°</span>
+                           <span className="opacity-50">|</span>
+                           <span>×{layer.scale.toFixed(3)}</span>
+                         </>
+                       )}
                     </div>
                   )}
                 </div>
                );
             })}
+            </div>
+
+            {/* Transform Gizmo */}
+            {selectedBounds && activeTool === 'select' && !isDraggingLayer && (
+              <>
+                <div
+                  className="absolute bg-sky-500 pointer-events-none"
+                  style={{
+                    zIndex: layers.length + 7,
+                    left: (selectedBounds.minX + selectedBounds.maxX) / 2 - 0.5 / zoom,
+                    top: selectedBounds.minY - GIZMO_ROTATE_OFFSET / zoom,
+                    width: 1 / zoom,
+                    height: GIZMO_ROTATE_OFFSET / zoom
+                  }}
+                />
+                <div
+                  onMouseDown={(e) => handleGizmoMouseDown(e, 'rotate')}
+                  title="Drag to rotate (Shift: 15° steps)"
+                  className="absolute rounded-full bg-white border-2 border-sky-500 shadow-md"
+                  style={{
+                    zIndex: layers.length + 8,
+                    left: (selectedBounds.minX + selectedBounds.maxX) / 2,
+                    top: selectedBounds.minY - GIZMO_ROTATE_OFFSET / zoom,
+                    width: (GIZMO_HANDLE_SIZE + 2) / zoom,
+                    height: (GIZMO_HANDLE_SIZE + 2) / zoom,
+                    borderWidth: 2 / zoom,
+                    transform: 'translate(-50%, -50%)',
+                    cursor: gizmoDrag ? 'grabbing' : 'grab'
+                  }}
+                />
+                {([
+                  [selectedBounds.minX, selectedBounds.minY, 'nwse-resize'],
+                  [selectedBounds.maxX, selectedBounds.minY, 'nesw-resize'],
+                  [selectedBounds.minX, selectedBounds.maxY, 'nesw-resize'],
+                  [selectedBounds.maxX, selectedBounds.maxY, 'nwse-resize']
+                ] as const).map(([x, y, cursor], i) => (
+                  <div
+                    key={i}
+                    onMouseDown={(e) => handleGizmoMouseDown(e, 'scale')}
+                    title="Drag to scale"
+                    className="absolute bg-white border-sky-500 rounded-sm shadow-md"
+                    style={{
+                      zIndex: layers.length + 8,
+                      left: x,
+                      top: y,
+                      width: GIZMO_HANDLE_SIZE / zoom,
+                      height: GIZMO_HANDLE_SIZE / zoom,
+                      borderWidth: 2 / zoom,
+                      transform: 'translate(-50%, -50%)',
+                      cursor
+                    }}
+                  />
+                ))}
+              </>
+            )}
+
+            {/* Crop Overlay: dims what the crop leaves out */}
+            {cropTarget && (
+              <svg
+                width={1}
+                height={1}
+                className="absolute pointer-events-none overflow-visible"
+                style={{ left: 0, top: 0, zIndex: layers.length + 7 }}
+              >
+                <path
+                  d={`${sourceRectPath(cropTarget, { x: 0, y: 0, width: cropTarget.width, height: cropTarget.height })} ${sourceRectPath(cropTarget, getCropRect(cropTarget))}`}
+                  fillRule="evenodd"
+                  fill="rgba(15, 23, 42, 0.55)"
+                />
+                <path
+                  d={sourceRectPath(cropTarget, getCropRect(cropTarget))}
+                  fill="none"
+                  stroke="white"
+                  strokeWidth={1.5}
+                  strokeDasharray="6 4"
+                  vectorEffect="non-scaling-stroke"
+                />
+              </svg>
+            )}
+
+            {/* Artboard (corner handles while nothing is selected, next to its panel) */}
+            {artboard && (
+              <>
+                <div
+                  className="absolute pointer-events-none"
+                  style={{
+                    zIndex: layers.length + 6,
+                    left: artboard.x,
+                    top: artboard.y,
+                    width: artboard.width,
+                    height: artboard.height,
+                    outline: `${1.5 / zoom}px dashed rgba(139, 92, 246, 0.9)`
+                  }}
+                >
+                  <div
+                    className="absolute bottom-full left-0 mb-1 bg-violet-500/90 text-white font-bold px-2 py-1 rounded-md shadow whitespace-nowrap"
+                    style={{ transform: `scale(${1 / zoom})`, transformOrigin: 'bottom left', fontSize: '10px' }}
+                  >
+                    Artboard {artboard.width} x {artboard.height}
+                  </div>
+                </div>
+                {selectedCount === 0 && ([
+                  [artboard.x, artboard.y, 'nwse-resize'],
+                  [artboard.x + artboard.width, artboard.y, 'nesw-resize'],
+                  [artboard.x, artboard.y + artboard.height, 'nesw-resize'],
+                  [artboard.x + artboard.width, artboard.y + artboard.height, 'nwse-resize']
+                ] as const).map(([x, y, cursor], i) => (
+                  <div
+                    key={i}
+                    onMouseDown={(e) => handleArtboardHandleMouseDown(e, {
+                      x: x === artboard.x ? artboard.x + artboard.width : artboard.x,
+                      y: y === artboard.y ? artboard.y + artboard.height : artboard.y
+                    })}
+                    title="Drag to resize the artboard"
+                    className="absolute bg-white border-violet-500 rounded-sm shadow-md"
+                    style={{
+                      zIndex: layers.length + 8,
+                      left: x,
+                      top: y,
+                      width: GIZMO_HANDLE_SIZE / zoom,
+                      height: GIZMO_HANDLE_SIZE / zoom,
+                      borderWidth: 2 / zoom,
+                      transform: 'translate(-50%, -50%)',
+                      cursor
+                    }}
+                  />
+                ))}
+              </>
+            )}
+
+            {/* User guides (a transparent band around each line makes it easier to grab) */}
+            {showGuides && guides.map(guide => {
+              const vertical = guide.axis === 'x';
+              const hit = GUIDE_HIT_SIZE / zoom;
+              return (
+                <div
+                  key={guide.id}
+                  onMouseDown={(e) => handleGuideMouseDown(e, guide)}
+                  title={guide.locked ? undefined : 'Drag to move, drop on the ruler to delete'}
+                  className={`absolute flex justify-center ${vertical ? 'flex-row' : 'flex-col'} ${guide.locked ? 'pointer-events-none' : ''}`}
+                  style={{
+                    zIndex: layers.length + 5,
+                    left: vertical ? guide.position - hit / 2 : -100000,
+                    top: vertical ? -100000 : guide.position - hit / 2,
+                    width: vertical ? hit : 200000,
+                    height: vertical ? 200000 : hit,
+                    cursor: vertical ? 'col-resize' : 'row-resize'
+                  }}
+                >
+                  <div
+                    className={guideDrag?.id === guide.id && guideDrag.remove ? 'bg-red-400/80' : 'bg-cyan-500/80'}
+                    style={vertical ? { width: 1 / zoom, height: '100%' } : { height: 1 / zoom, width: '100%' }}
+                  />
+                </div>
+              );
+            })}
+
+            {/* Group Pivot */}
+            {isGroupTransform && groupPivotPoint && activeTool === 'select' && (
+              <div
+                onMouseDown={handlePivotMouseDown}
+                title="Group pivot: drag to move"
+                className="absolute flex items-center justify-center"
+                style={{
+                  zIndex: layers.length + 9,
+                  left: groupPivotPoint.x,
+                  top: groupPivotPoint.y,
+                  transform: `translate(-50%, -50%) scale(${1 / zoom})`,
+                  cursor: draggingPivot ? 'grabbing' : 'move'
+                }}
+              >
+                <div className="w-5 h-5 rounded-full border-2 border-sky-600 bg-white/70 shadow-md flex items-center justify-center text-sky-600">
+                  <Icons.Crosshair size={12} />
+                </div>
+              </div>
+            )}
+
+            {/* Snap Lines */}
+            {snapLines.map((line, i) => (
+              <div
+                key={i}
+                className="absolute bg-pink-500 pointer-events-none"
+                style={{
+                  zIndex: layers.length + 6,
+                  ...(line.axis === 'x'
+                    ? { left: line.position - 0.5 / zoom, top: line.extent ? line.extent[0] : -100000, width: 1 / zoom, height: line.extent ? line.extent[1] - line.extent[0] : 200000 }
+                    : { top: line.position - 0.5 / zoom, left: line.extent ? line.extent[0] : -100000, height: 1 / zoom, width: line.extent ? line.extent[1] - line.extent[0] : 200000 })
+                }}
+              />
+            ))}
+
+            {/* Swipe Divider */}
+            {swipeBounds && (
+              <div
+                onMouseDown={handleSwipeMouseDown}
+                className="absolute"
+                style={{
+                  zIndex: layers.length + 5,
+                  cursor: swipeOrientation === 'vertical' ? 'ew-resize' : 'ns-resize',
+                  ...(swipeOrientation === 'vertical'
+                    ? { left: swipeCoordinate - 8 / zoom, top: swipeBounds.minY, width: 16 / zoom, height: swipeBounds.maxY - swipeBounds.minY }
+                    : { left: swipeBounds.minX, top: swipeCoordinate - 8 / zoom, width: swipeBounds.maxX - swipeBounds.minX, height: 16 / zoom })
+                }}
+              >
+                <div
+                  className="absolute bg-white shadow-[0_0_4px_rgba(15,23,42,0.6)]"
+                  style={swipeOrientation === 'vertical'
+                    ? { left: `calc(50% - ${1 / zoom}px)`, top: 0, bottom: 0, width: 2 / zoom }
+                    : { top: `calc(50% - ${1 / zoom}px)`, left: 0, right: 0, height: 2 / zoom }}
+                />
+                <div
+                  className="absolute left-1/2 top-1/2 w-7 h-7 rounded-full bg-white/90 border border-slate-200 shadow-lg flex items-center justify-center text-slate-500"
+                  style={{ transform: `translate(-50%, -50%) scale(${1 / zoom}) rotate(${swipeOrientation === 'vertical' ? 0 : 90}deg)` }}
+                >
+                  <Icons.GripVertical size={14} />
+                </div>
+              </div>
+            )}
+
+            {/* Control Points (reference: sky, moving: amber) */}
+            {controlPointPair && [controlPointPair.reference, controlPointPair.moving].map((layer, pairIndex) =>
+              (layer.controlPoints || []).map((point: ControlPoint) => {
+                const pos = sourceToCanvas(layer, point);
+                const color = pairIndex === 0 ? 'bg-sky-500 ring-sky-200' : 'bg-amber-500 ring-amber-200';
+                return (
+                  <div
+                    key={point.id}
+                    onMouseDown={(e) => handlePointMouseDown(e, layer.id, point.id)}
+                    className="absolute flex items-center select-none"
+                    style={{
+                      left: pos.x,
+                      top: pos.y,
+                      zIndex: layers.length + 10,
+                      transform: `scale(${1 / zoom})`,
+                      transformOrigin: '0 0',
+                      cursor: draggingPoint?.pointId === point.id ? 'grabbing' : 'move'
+                    }}
+                  >
+                    <div className={`w-3.5 h-3.5 -ml-[7px] -mt-[7px] rounded-full border-2 border-white ring-2 shadow-md ${color}`} />
+                    <span className={`ml-1 -mt-[7px] px-1.5 py-0.5 rounded-md text-[10px] font-bold text-white shadow ${color}`}>
+                      {point.name}
+                    </span>
+                  </div>
+                );
+              })
+            )}
+
+            {/* Measurements (the draft follows the cursor until its last point is placed) */}
+            {(measurements.length > 0 || measureDraft.length > 0) && (
+              <svg
+                width={1}
+                height={1}
+                className="absolute pointer-events-none overflow-visible"
+                style={{ left: 0, top: 0, zIndex: layers.length + 11 }}
+              >
+                {[
+                  ...measurements.map(m => ({ id: m.id, points: m.points, draft: false })),
+                  ...(activeTool === 'measure' && measureDraft.length > 0
+                    ? [{ id: 'draft', points: measurePointer ? [...measureDraft, measurePointer] : measureDraft, draft: true }]
+                    : [])
+                ].map(({ id, points, draft }) => (
+                  <g key={id}>
+                    <polyline
+                      points={points.map(p => `${p.x},${p.y}`).join(' ')}
+                      fill="none"
+                      stroke={MEASURE_COLOR}
+                      strokeWidth={1.5}
+                      strokeDasharray={draft ? '4 3' : undefined}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                    {points.map((p, i) => (
+                      <circle key={i} cx={p.x} cy={p.y} r={3 / zoom} fill="white" stroke={MEASURE_COLOR} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+                    ))}
+                  </g>
+                ))}
+              </svg>
+            )}
+            {measurements.map(m => {
+              // Distances are labelled at their midpoint, angles at the vertex
+              const anchor = m.mode === 'angle'
+                ? m.points[1]
+                : { x: (m.points[0].x + m.points[1].x) / 2, y: (m.points[0].y + m.points[1].y) / 2 };
+              return (
+                <div
+                  key={m.id}
+                  className="absolute pointer-events-none select-none px-1.5 py-0.5 rounded-md text-[10px] font-bold text-white shadow whitespace-nowrap"
+                  style={{
+                    left: anchor.x,
+                    top: anchor.y,
+                    zIndex: layers.length + 11,
+                    backgroundColor: MEASURE_COLOR,
+                    transform: `scale(${1 / zoom}) translate(6px, 6px)`,
+                    transformOrigin: '0 0'
+                  }}
+                >
+                  {describeMeasurement(m, calibration)}
+                </div>
+              );
+            })}
+
+            {/* Straighten line with the rotation it will apply */}
+            {straightenLine && (
+              <>
+                <svg
+                  width={1}
+                  height={1}
+                  className="absolute pointer-events-none overflow-visible"
+                  style={{ left: 0, top: 0, zIndex: layers.length + 11 }}
+                >
+                  <line
+                    x1={straightenLine.start.x}
+                    y1={straightenLine.start.y}
+                    x2={straightenLine.end.x}
+                    y2={straightenLine.end.y}
+                    stroke="#0ea5e9"
+                    strokeWidth={2}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                </svg>
+                <div
+                  className="absolute pointer-events-none select-none px-1.5 py-0.5 rounded-md text-[10px] font-bold text-white bg-sky-500 shadow whitespace-nowrap"
+                  style={{
+                    left: straightenLine.end.x,
+                    top: straightenLine.end.y,
+                    zIndex: layers.length + 11,
+                    transform: `scale(${1 / zoom}) translate(8px, 8px)`,
+                    transformOrigin: '0 0'
+                  }}
+                >
+                  Rotate {straightenRotation >= 0 ? '+' : ''}{straightenRotation.toFixed(2)}°
+                </div>
+              </>
+            )}
           </div>
 
+          {/* Rulers (drag out of one to create a guide) */}
+          {showRulers && (
+            <>
+              <Ruler orientation="horizontal" zoom={zoom} offset={pan.x} onMouseDown={(e) => handleRulerMouseDown(e, 'y')} />
+              <Ruler orientation="vertical" zoom={zoom} offset={pan.y} onMouseDown={(e) => handleRulerMouseDown(e, 'x')} />
+              <div className="absolute left-0 top-0 z-30 flex items-center justify-center bg-white/90 border-r border-b border-slate-200/70 text-slate-400" style={{ width: RULER_SIZE, height: RULER_SIZE }}>
+                <Icons.Ruler size={12} />
+              </div>
+            </>
+          )}
+
+          {/* Measure Panel (stays while measurements are shown, even after leaving the tool) */}
+          {(activeTool === 'measure' || measurements.length > 0) && (
+            <div
+              onMouseDown={(e) => e.stopPropagation()}
+              className="absolute bottom-4 left-9 z-40 w-80 max-h-[60%] flex flex-col gap-3 p-4 bg-white/80 backdrop-blur-xl border border-white/60 rounded-2xl shadow-lg cursor-default"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-1.5 text-xs font-bold text-slate-700">
+                  <Icons.Measure size={14} className="text-pink-500" /> Measure
+                </span>
+                <SegmentedControl options={MEASURE_OPTIONS} value={measureMode} onChange={changeMeasureMode} />
+              </div>
+              <p className="text-[11px] text-slate-500 leading-snug">
+                {activeTool !== 'measure'
+                  ? 'Turn on the measure tool in the toolbar to add more.'
+                  : measureMode === 'distance'
+                    ? 'Click two points. Esc cancels the current measurement.'
+                    : 'Click three points; the second one is the vertex. Esc cancels the current measurement.'}
+              </p>
+
+              {measurements.length > 0 && (
+                <div className="space-y-1.5 overflow-y-auto custom-scrollbar">
+                  {measurements.map((m, i) => (
+                    <div key={m.id} className="flex items-start gap-2 text-xs text-slate-600">
+                      <span className="w-5 text-[10px] font-bold text-pink-500 pt-0.5">{i + 1}</span>
+                      <div className="flex-1 min-w-0">
+                        <div className="font-semibold text-slate-700">{describeMeasurement(m, calibration)}</div>
+                        {m.mode === 'distance' && <div className="text-[10px] text-slate-500">{describeOffset(m, calibration)}</div>}
+                      </div>
+                      <button
+                        onClick={() => setMeasurements(prev => prev.filter(x => x.id !== m.id))}
+                        title="Remove measurement"
+                        className="text-slate-400 hover:text-red-500"
+                      >
+                        <Icons.X size={14} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="pt-3 border-t border-slate-200/50 space-y-2">
+                <div className="flex items-center justify-between text-[11px] text-slate-500">
+                  <span>
+                    {isCalibrated(calibration)
+                      ? `Calibrated: 1 px = ${parseFloat(calibration.unitsPerPixel.toPrecision(4))} ${calibration.unit}`
+                      : 'Not calibrated, lengths are in canvas pixels'}
+                  </span>
+                  {calibration && (
+                    <button onClick={() => setCalibration(null)} className="font-semibold text-slate-500 hover:text-red-500">
+                      Clear
+                    </button>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="flex-1">
+                    <NumberInput label="Known" value={calibrationLength} onChange={(v) => { setCalibrationLength(v); setCalibrationError(null); }} placeholder="last distance" />
+                  </div>
+                  <input
+                    type="text"
+                    value={calibrationUnit}
+                    onChange={(e) => setCalibrationUnit(e.target.value)}
+                    title="Unit"
+                    className="w-14 bg-white/30 border border-white/50 rounded-xl p-2.5 text-sm text-slate-700 font-medium outline-none focus:ring-2 focus:ring-sky-400/50 shadow-sm"
+                  />
+                  <Button
+                    variant="secondary"
+                    onClick={calibrateFromLastDistance}
+                    disabled={!lastDistance || calibrationLength === ''}
+                    title="Set the pixel size so the last measured distance has this length"
+                    className="text-xs"
+                  >
+                    Calibrate
+                  </Button>
+                </div>
+                {calibrationError && (
+                  <div className="flex items-start gap-2 p-2 rounded-xl bg-red-50/50 border border-red-100 text-[11px] text-red-600 font-medium">
+                    <Icons.AlertTriangle size={12} className="flex-shrink-0 mt-0.5" /> {calibrationError}
+                  </div>
+                )}
+              </div>
+
+              {measurements.length > 0 && (
+                <Button variant="secondary" onClick={clearMeasurements} className="w-full text-xs">
+                  <Icons.Trash2 size={14} /> Clear Measurements
+                </Button>
+              )}
+            </div>
+          )}
+
+          {/* Pixel Loupe */}
+          {showLoupe && loupePointer && canvasRef.current && (
+            <PixelLoupe
+              layers={layers}
+              point={{ x: (loupePointer.x - pan.x) / zoom, y: (loupePointer.y - pan.y) / zoom }}
+              position={loupePointer}
+              viewport={{ width: canvasRef.current.clientWidth, height: canvasRef.current.clientHeight }}
+              magnification={loupeMagnification}
+            />
+          )}
+
           {/* Selection Box Overlay */}
           {isSelecting && selectionBox && (
               <div 
@@ -1586,6 +3884,32 @@ export default function App() {
                 </label>
                 <StepInput value={angleStep} onChange={setAngleStep} />
               </div>
+              {selectedCount > 1 && (
+                <div className="flex items-center justify-between gap-2 px-1 mb-2">
+                  <label className="flex items-center gap-2 text-xs font-medium text-slate-600 cursor-pointer" title="Rotate and scale the selection as one rigid body around the pivot">
+                    <input
+                      type="checkbox"
+                      checked={groupTransform}
+                      onChange={(e) => setGroupTransform(e.target.checked)}
+                      className="w-3.5 h-3.5 rounded border-slate-300 accent-sky-500"
+                    />
+                    Transform as group
+                  </label>
+                  {groupTransform && (
+                    groupPivot?.placed ? (
+                      <button
+                        onClick={() => setGroupPivot(null)}
+                        className="text-[10px] font-semibold text-sky-600 hover:text-sky-700"
+                        title="Move the pivot back to the selection centre"
+                      >
+                        Reset pivot
+                      </button>
+                    ) : (
+                      <span className="text-[10px] text-slate-400">Pivot: centre</span>
+                    )
+                  )}
+                </div>
+              )}
               <div className="space-y-3">
                  <div className="flex items-center gap-2">
                     <div className="p-2.5 bg-white/50 rounded-xl text-slate-500 border border-white/50 shadow-sm">
@@ -1625,6 +3949,14 @@ export default function App() {
                       </div>
                     </div>
                  </div>
+                 <Button
+                   variant={activeTool === 'straighten' ? 'primary' : 'secondary'}
+                   onClick={() => setActiveTool(activeTool === 'straighten' ? 'select' : 'straighten')}
+                   title="Drag along a feature that should be horizontal or vertical; the layer is rotated to make it so (Esc to cancel)"
+                   className="w-full text-xs"
+                 >
+                   <Icons.Straighten size={14} /> {activeTool === 'straighten' ? 'Drag along a straight feature…' : 'Straighten'}
+                 </Button>
                  <div className="flex items-center gap-2">
                     <div className="p-2.5 bg-white/50 rounded-xl text-slate-500 border border-white/50 shadow-sm">
                         <Icons.ZoomIn size={14} />
@@ -1639,9 +3971,188 @@ export default function App() {
                       />
                     </div>
                  </div>
+                 <div className="grid grid-cols-2 gap-2">
+                    <Button
+                      variant={allFlippedX ? 'primary' : 'secondary'}
+                      onClick={() => updateSelectedLayers({ flipX: !allFlippedX })}
+                      title="Mirror horizontally (exported as flip_x)"
+                      className="text-xs"
+                    >
+                      <Icons.FlipHorizontal size={14} /> Flip X
+                    </Button>
+                    <Button
+                      variant={allFlippedY ? 'primary' : 'secondary'}
+                      onClick={() => updateSelectedLayers({ flipY: !allFlippedY })}
+                      title="Mirror vertically (exported as flip_y)"
+                      className="text-xs"
+                    >
+                      <Icons.FlipVertical size={14} /> Flip Y
+                    </Button>
+                 </div>
               </div>
             </div>
 
+            {/* Crop (single layer, source pixels) */}
+            {selectedCount === 1 && firstSelectedLayer && firstCrop && (
+              <InputGroup label="Crop">
+                <div className="bg-white/40 p-4 rounded-2xl border border-white/50 shadow-sm backdrop-blur-sm space-y-3">
+                  <div className="grid grid-cols-2 gap-3">
+                    <NumberInput label="X" value={firstCrop.x} onChange={(v) => updateSelectedCrop(normalizeCrop(firstSelectedLayer, { x: v, y: firstCrop.y }, { x: v + firstCrop.width, y: firstCrop.y + firstCrop.height }))} />
+                    <NumberInput label="Y" value={firstCrop.y} onChange={(v) => updateSelectedCrop(normalizeCrop(firstSelectedLayer, { x: firstCrop.x, y: v }, { x: firstCrop.x + firstCrop.width, y: v + firstCrop.height }))} />
+                    <NumberInput label="W" value={firstCrop.width} onChange={(v) => updateSelectedCrop(normalizeCrop(firstSelectedLayer, firstCrop, { x: firstCrop.x + Math.max(1, v), y: firstCrop.y + firstCrop.height }))} />
+                    <NumberInput label="H" value={firstCrop.height} onChange={(v) => updateSelectedCrop(normalizeCrop(firstSelectedLayer, firstCrop, { x: firstCrop.x + firstCrop.width, y: firstCrop.y + Math.max(1, v) }))} />
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button
+                      variant={activeTool === 'crop' ? 'primary' : 'secondary'}
+                      onClick={() => setActiveTool(activeTool === 'crop' ? 'select' : 'crop')}
+                      title="Drag a rectangle over the layer to crop it (Esc to finish)"
+                      className="text-xs"
+                    >
+                      <Icons.Crop size={14} /> {activeTool === 'crop' ? 'Done' : 'Crop Tool'}
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      onClick={() => updateSelectedCrop(undefined)}
+                      disabled={!firstSelectedLayer.crop}
+                      className="text-xs"
+                    >
+                      <Icons.X size={14} /> Reset
+                    </Button>
+                  </div>
+                </div>
+              </InputGroup>
+            )}
+
+            {/* Arrange (multiple layers) */}
+            {selectedCount > 1 && (
+              <InputGroup label="Arrange">
+                <div className="grid grid-cols-6 gap-1 bg-white/40 p-1 rounded-xl border border-white/50 shadow-sm">
+                  {([
+                    ['left', Icons.AlignStartVertical, 'Align left'],
+                    ['center-x', Icons.AlignCenterVertical, 'Align horizontal centres'],
+                    ['right', Icons.AlignEndVertical, 'Align right'],
+                    ['top', Icons.AlignStartHorizontal, 'Align top'],
+                    ['center-y', Icons.AlignCenterHorizontal, 'Align vertical centres'],
+                    ['bottom', Icons.AlignEndHorizontal, 'Align bottom']
+                  ] as const).map(([edge, Icon, title]) => (
+                    <Button key={edge} variant="ghost" onClick={() => alignSelected(edge)} title={title} className="p-2">
+                      <Icon size={16} />
+                    </Button>
+                  ))}
+                  {([
+                    ['horizontal', 'gaps', Icons.AlignHorizontalSpaceBetween, 'Distribute horizontally: equal gaps'],
+                    ['horizontal', 'centers', Icons.AlignHorizontalDistributeCenter, 'Distribute horizontally: equal centre spacing'],
+                    ['vertical', 'gaps', Icons.AlignVerticalSpaceBetween, 'Distribute vertically: equal gaps'],
+                    ['vertical', 'centers', Icons.AlignVerticalDistributeCenter, 'Distribute vertically: equal centre spacing']
+                  ] as const).map(([axis, mode, Icon, title]) => (
+                    <Button
+                      key={`${axis}-${mode}`}
+                      variant="ghost"
+                      onClick={() => distributeSelected(axis, mode)}
+                      disabled={selectedCount < 3}
+                      title={selectedCount < 3 ? `${title} (select at least 3 layers)` : title}
+                      className="p-2"
+                    >
+                      <Icon size={16} />
+                    </Button>
+                  ))}
+                </div>
+                <Button variant="secondary" onClick={() => setShowGridLayout(true)} className="w-full mt-2">
+                  <Icons.LayoutGrid size={16} /> Arrange as Grid
+                </Button>
+              </InputGroup>
+            )}
+
+            {/* Alignment (exactly two layers: first selected is the reference) */}
+            {selectedCount === 2 && (
+              <InputGroup label="Alignment">
+                <div className="bg-white/40 p-4 rounded-2xl border border-white/50 shadow-sm backdrop-blur-sm space-y-3">
+                  <p className="text-[11px] text-slate-500 leading-snug">
+                    Moves <span className="font-semibold text-slate-700">{getAlignmentPair()?.moving.name}</span> onto the first selected layer.
+                  </p>
+                  <SegmentedControl
+                    options={[{ value: 'rigid', label: 'Rigid' }, { value: 'similarity', label: 'Similarity' }]}
+                    value={alignModel}
+                    onChange={setAlignModel}
+                  />
+                  <Button onClick={runAutoAlign} disabled={isAligning} className="w-full">
+                    <Icons.Wand size={16} /> {isAligning ? 'Aligning...' : 'Auto Align'}
+                  </Button>
+                  <hr className="border-slate-200/40" />
+                  <label className="flex items-center gap-2 text-xs text-slate-600 font-medium cursor-pointer select-none px-1">
+                    <input
+                      type="checkbox"
+                      checked={phaseRotation}
+                      onChange={(e) => setPhaseRotation(e.target.checked)}
+                      className="w-3.5 h-3.5 rounded border-slate-300 cursor-pointer"
+                    />
+                    Estimate rotation (Fourier–Mellin)
+                  </label>
+                  <Button onClick={runPhaseCorrelation} disabled={isAligning} className="w-full" title="FFT phase correlation on the overlap region">
+                    <Icons.Grid size={16} /> Phase Correlation
+                  </Button>
+                  <hr className="border-slate-200/40" />
+                  <div className="flex items-center justify-between px-1">
+                    <span className="text-[10px] font-bold text-slate-500/80 uppercase tracking-widest">Control Points</span>
+                    <Button
+                      variant={activeTool === 'controlPoints' ? 'primary' : 'secondary'}
+                      onClick={() => setActiveTool(activeTool === 'controlPoints' ? 'select' : 'controlPoints')}
+                      className="px-2.5 py-1.5 text-xs"
+                      title="Click the same feature on both layers to create a named pair (Esc to finish)"
+                    >
+                      <Icons.Crosshair size={14} /> {activeTool === 'controlPoints' ? 'Done' : 'Place'}
+                    </Button>
+                  </div>
+                  {activeTool === 'controlPoints' && controlPointPair && (
+                    <div className="space-y-1.5 px-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-[11px] text-slate-500">Placing on</span>
+                        <SegmentedControl
+                          options={[{ value: 'reference', label: 'Reference' }, { value: 'moving', label: 'Moving' }]}
+                          value={controlPointTarget}
+                          onChange={setControlPointTarget}
+                        />
+                      </div>
+                      <p className="text-[11px] text-slate-400 leading-snug">
+                        Next click goes to <span className="font-semibold text-slate-600">{controlPointPair[controlPointTarget].name}</span>, even under the other layer; it switches after each point.
+                      </p>
+                    </div>
+                  )}
+                  {controlPointPair && getControlPointPairs(controlPointPair.reference, controlPointPair.moving).map(pair => {
+                    const residual = controlPointSolution?.residuals.find(r => r.name === pair.name)?.residual;
+                    return (
+                      <div key={pair.name} className="flex items-center gap-2 px-1 text-xs">
+                        <span className="w-7 text-center py-0.5 rounded-md bg-slate-100/80 font-bold text-slate-600">{pair.name}</span>
+                        <span className="flex-1 font-mono text-slate-500">
+                          {residual !== undefined ? `${residual.toFixed(2)} px` : '—'}
+                        </span>
+                        <button
+                          onClick={() => removeControlPointPair(pair.name)}
+                          className="p-1 text-slate-400 hover:text-red-500 rounded-md transition-colors"
+                          title={`Remove pair ${pair.name}`}
+                        >
+                          <Icons.X size={12} />
+                        </button>
+                      </div>
+                    );
+                  })}
+                  {controlPointSolution ? (
+                    <div className="text-[11px] text-slate-500 px-1">
+                      RMS residual: <span className="font-mono font-semibold text-slate-700">{controlPointSolution.rmsError.toFixed(2)} px</span>
+                    </div>
+                  ) : (
+                    <p className="text-[11px] text-slate-400 px-1 leading-snug">
+                      Click matching features on both layers. At least {MIN_CONTROL_PAIRS} pairs are needed.
+                    </p>
+                  )}
+                  <Button onClick={applyControlPoints} disabled={!controlPointSolution} className="w-full">
+                    <Icons.Crosshair size={16} /> Solve & Apply
+                  </Button>
+                </div>
+              </InputGroup>
+            )}
+
             {/* Appearance */}
             <InputGroup label="Opacity">
               <div className="bg-white/40 p-4 rounded-2xl border border-white/50 shadow-sm backdrop-blur-sm">
@@ -1663,6 +4174,66 @@ export default function App() {
               </div>
             </InputGroup>
 
+            {/* Exposure compensation (values of the first selected layer; edits apply to all) */}
+            <InputGroup label="Exposure">
+              <div className="bg-white/40 p-4 rounded-2xl border border-white/50 shadow-sm backdrop-blur-sm space-y-3">
+                {([
+                  ['Brightness', (e) => e.brightness, () => (v) => ({ brightness: v }), -0.5, 0.5, (v) => `${v >= 0 ? '+' : ''}${Math.round(v * 100)}%`, 'accent-slate-500'],
+                  ['Contrast', (e) => e.contrast, () => (v) => ({ contrast: v }), 0.5, 2, (v) => `×${v.toFixed(2)}`, 'accent-slate-500'],
+                  ['Red Gain', (e) => e.gain[0], (e) => (v) => ({ gain: withGain(e, 0, v) }), 0.25, 4, (v) => `×${v.toFixed(2)}`, 'accent-red-500'],
+                  ['Green Gain', (e) => e.gain[1], (e) => (v) => ({ gain: withGain(e, 1, v) }), 0.25, 4, (v) => `×${v.toFixed(2)}`, 'accent-emerald-500'],
+                  ['Blue Gain', (e) => e.gain[2], (e) => (v) => ({ gain: withGain(e, 2, v) }), 0.25, 4, (v) => `×${v.toFixed(2)}`, 'accent-sky-500']
+                ] as [
+                  string,
+                  (e: ExposureAdjustment) => number,
+                  (e: ExposureAdjustment) => (v: number) => Partial<ExposureAdjustment>,
+                  number,
+                  number,
+                  (v: number) => string,
+                  string
+                ][]).map(([label, pick, change, min, max, format, accent]) => (
+                  <div key={label}>
+                    <div className="flex justify-between text-xs font-medium text-slate-500 mb-1.5">
+                      <span>{label}</span>
+                      <span className="font-mono">{isExposureMixed(pick) ? 'Mixed' : format(pick(firstExposure))}</span>
+                    </div>
+                    <input
+                      type="range"
+                      min={min}
+                      max={max}
+                      step="0.01"
+                      value={pick(firstExposure)}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        updateSelectedExposure(current => change(current)(value));
+                      }}
+                      className={`w-full h-1.5 bg-slate-200/60 rounded-lg appearance-none cursor-pointer ${accent}`}
+                    />
+                  </div>
+                ))}
+                <div className={`grid ${selectedCount > 1 ? 'grid-cols-2' : 'grid-cols-1'} gap-2`}>
+                  {selectedCount > 1 && (
+                    <Button
+                      onClick={runMatchExposure}
+                      disabled={isAligning}
+                      title={`Estimate gains from the overlap with ${firstSelectedLayer?.name} (the first selected layer)`}
+                      className="text-xs"
+                    >
+                      <Icons.Wand size={14} /> Match
+                    </Button>
+                  )}
+                  <Button
+                    variant="secondary"
+                    onClick={() => updateSelectedExposure(() => DEFAULT_EXPOSURE)}
+                    disabled={selectedLayers.every(l => isNeutralExposure(l.exposure))}
+                    className="text-xs"
+                  >
+                    <Icons.X size={14} /> Reset
+                  </Button>
+                </div>
+              </div>
+            </InputGroup>
+
             <div className="pt-4 border-t border-slate-200/40">
               <Button 
                 variant="danger" 
@@ -1675,12 +4246,109 @@ export default function App() {
 
           </div>
         ) : (
-          <div className="flex-1 flex flex-col items-center justify-center text-slate-400 p-6 text-center">
-            <div className="bg-white/40 p-5 rounded-full mb-4 ring-1 ring-white/50 shadow-sm">
-                <Icons.MousePointer className="opacity-50 text-slate-400" size={24} />
+          <div className="flex-1 flex flex-col p-6 overflow-y-auto custom-scrollbar">
+            {/* Artboard (document level, so it lives here while nothing is selected) */}
+            <InputGroup label="Artboard">
+              <div className="bg-white/40 p-4 rounded-2xl border border-white/50 shadow-sm backdrop-blur-sm space-y-3">
+                {artboard ? (
+                  <>
+                    <div className="grid grid-cols-2 gap-3">
+                      <NumberInput label="X" value={artboard.x} onChange={(v) => updateArtboard({ x: v })} />
+                      <NumberInput label="Y" value={artboard.y} onChange={(v) => updateArtboard({ y: v })} />
+                      <NumberInput label="W" value={artboard.width} onChange={(v) => updateArtboard({ width: v })} />
+                      <NumberInput label="H" value={artboard.height} onChange={(v) => updateArtboard({ height: v })} />
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                      <Button variant="secondary" onClick={() => fitArtboard('all')} disabled={layers.length === 0} className="text-xs" title="Fit to all visible layers">
+                        Fit All
+                      </Button>
+                      <Button variant="secondary" onClick={() => fitArtboard('checked')} disabled={checkedLayers.size === 0} className="text-xs" title="Fit to the checked layers">
+                        Fit Checked
+                      </Button>
+                      <Button variant="secondary" onClick={() => setArtboard(null)} className="text-xs">
+                        <Icons.X size={14} /> Remove
+                      </Button>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <p className="text-[11px] text-slate-500 leading-snug">
+                      An artboard fixes the output rectangle. Exports can give shifts relative to its top-left.
+                    </p>
+                    <Button onClick={() => fitArtboard('all')} disabled={layers.length === 0} className="w-full">
+                      <Icons.Maximize size={16} /> Add Artboard
+                    </Button>
+                  </>
+                )}
+                <Button
+                  variant="secondary"
+                  onClick={normalizeToOrigin}
+                  disabled={layers.length === 0}
+                  className="w-full text-xs"
+                  title={artboard ? 'Move the layers and artboard so the artboard starts at (0, 0)' : 'Move the layers so their bounds start at (0, 0)'}
+                >
+                  <Icons.Crosshair size={14} /> Normalize to Origin
+                </Button>
+              </div>
+            </InputGroup>
+
+            <InputGroup label="Guides">
+              <div className="bg-white/40 p-4 rounded-2xl border border-white/50 shadow-sm backdrop-blur-sm space-y-3">
+                {guides.length === 0 ? (
+                  <p className="text-[11px] text-slate-500 leading-snug">
+                    Drag from a ruler to add a guide. Layers snap to guides while snapping is on.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {guides.map(guide => (
+                      <div key={guide.id} className="flex items-center gap-2">
+                        <span
+                          className="w-6 text-center text-[10px] font-bold text-cyan-600 bg-cyan-50/80 border border-cyan-100 rounded py-1"
+                          title={guide.axis === 'x' ? 'Vertical guide (X position)' : 'Horizontal guide (Y position)'}
+                        >
+                          {guide.axis === 'x' ? 'V' : 'H'}
+                        </span>
+                        <div className="flex-1">
+                          <NumberInput label={guide.axis === 'x' ? 'X' : 'Y'} value={guide.position} onChange={(v) => updateGuide(guide.id, { position: v })} />
+                        </div>
+                        <Button
+                          variant="ghost"
+                          onClick={() => updateGuide(guide.id, { locked: !guide.locked })}
+                          title={guide.locked ? 'Unlock guide' : 'Lock guide'}
+                          className={`h-8 w-8 p-0 ${guide.locked ? 'text-cyan-600' : ''}`}
+                        >
+                          {guide.locked ? <Icons.Lock size={14} /> : <Icons.Unlock size={14} />}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          onClick={() => setGuides(prev => prev.filter(g => g.id !== guide.id))}
+                          title="Delete guide"
+                          className="h-8 w-8 p-0 hover:text-red-500"
+                        >
+                          <Icons.Trash2 size={14} />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-2">
+                  <Button variant="secondary" onClick={() => addGuide('y')} className="text-xs">
+                    <Icons.Plus size={14} /> Horizontal
+                  </Button>
+                  <Button variant="secondary" onClick={() => addGuide('x')} className="text-xs">
+                    <Icons.Plus size={14} /> Vertical
+                  </Button>
+                </div>
+              </div>
+            </InputGroup>
+
+            <div className="flex-1 flex flex-col items-center justify-center text-slate-400 text-center">
+              <div className="bg-white/40 p-5 rounded-full mb-4 ring-1 ring-white/50 shadow-sm">
+                  <Icons.MousePointer className="opacity-50 text-slate-400" size={24} />
+              </div>
+              <p className="text-sm font-medium text-slate-600">No selection</p>
+              <p className="text-xs mt-1 text-slate-400/80">Click a layer or drag to select items</p>
             </div>
-            <p className="text-sm font-medium text-slate-600">No selection</p>
-            <p className="text-xs mt-1 text-slate-400/80">Click a layer or drag to select items</p>
           </div>
         )}
         </aside>
@@ -29,7 +29,36 @@ import {
   X,
   Minimize,
   GripVertical,
-  Info
+  Info,
+  Save,
+  FolderOpen,
+  FileUp,
+  AlertTriangle,
+  Image,
+  Wand2,
+  Crosshair,
+  Search,
+  Magnet,
+  LayoutGrid,
+  AlignStartVertical,
+  AlignCenterVertical,
+  AlignEndVertical,
+  AlignStartHorizontal,
+  AlignCenterHorizontal,
+  AlignEndHorizontal,
+  AlignHorizontalSpaceBetween,
+  AlignHorizontalDistributeCenter,
+  AlignVerticalSpaceBetween,
+  AlignVerticalDistributeCenter,
+  FlipHorizontal2,
+  FlipVertical2,
+  Crop,
+  Ruler,
+  Lock,
+  LockOpen,
+  Plus,
+  RulerDimensionLine,
+  Slash
 } from 'lucide-react';
 
 export const Icons = {
@@ -62,5 +91,34 @@ export const Icons = {
   X,
   Minimize,
   GripVertical,
-  Info
+  Info,
+  Save,
+  FolderOpen,
+  FileUp,
+  AlertTriangle,
+  Image,
+  Wand: Wand2,
+  Crosshair,
+  Search,
+  Magnet,
+  LayoutGrid,
+  AlignStartVertical,
+  AlignCenterVertical,
+  AlignEndVertical,
+  AlignStartHorizontal,
+  AlignCenterHorizontal,
+  AlignEndHorizontal,
+  AlignHorizontalSpaceBetween,
+  AlignHorizontalDistributeCenter,
+  AlignVerticalSpaceBetween,
+  AlignVerticalDistributeCenter,
+  FlipHorizontal: FlipHorizontal2,
+  FlipVertical: FlipVertical2,
+  Crop,
+  Ruler,
+  Lock,
+  Unlock: LockOpen,
+  Plus,
+  Measure: RulerDimensionLine,
+  Straighten: Slash
 };
\ No newline at end of file
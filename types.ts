@@ -11,6 +11,64 @@ export interface Layer {
   visible: boolean;
   width: number;
   height: number;
+  flipX?: boolean; // mirrored horizontally in source space, before rotation
+  flipY?: boolean;
+  crop?: CropRect; // visible part of the source image; the whole image when absent
+  exposure?: ExposureAdjustment; // colour compensation; neutral when absent
+  controlPoints?: ControlPoint[];
+}
+
+// Applied per channel on 0-1 values: (value * gain - 0.5) * contrast + 0.5 + brightness
+export interface ExposureAdjustment {
+  brightness: number; // offset, -1 to 1
+  contrast: number; // 1 = unchanged
+  gain: [number, number, number]; // r, g, b multipliers
+}
+
+// Integer source-image pixels
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Point in source-image pixels; points with the same name on two layers form a pair
+export interface ControlPoint {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+}
+
+// Output rectangle in canvas coordinates, whole pixels
+export interface Artboard {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// User guide line; 'x' guides are vertical lines at x = position (canvas coordinates)
+export interface Guide {
+  id: string;
+  axis: 'x' | 'y';
+  position: number;
+  locked?: boolean;
+}
+
+// One undo step: the layers before an edit. Edits that move the whole scene (Normalize to
+// Origin) also record the offset, so undo and redo move the artboard, guides and measurements
+// by the same amount, from wherever they are at the time
+export interface HistoryEntry {
+  layers: Layer[];
+  sceneShift?: Coordinates;
+}
+
+// Physical size of one canvas pixel, e.g. 0.65 µm for a microscope scan
+export interface Calibration {
+  unitsPerPixel: number;
+  unit: string;
 }
 
 export interface Coordinates {
@@ -24,4 +82,86 @@ export interface ExportData {
   shift_y: number;
   rotate: number;
   layer_order: number;
-}
\ No newline at end of file
+  // Only written when at least one layer is flipped, so unflipped v1 files stay unchanged
+  flip_x?: boolean;
+  flip_y?: boolean;
+  // Likewise only written when at least one layer is cropped
+  crop_x?: number;
+  crop_y?: number;
+  crop_width?: number;
+  crop_height?: number;
+  // Likewise only written when at least one layer has an exposure adjustment
+  brightness?: number;
+  contrast?: number;
+  gain_r?: number;
+  gain_g?: number;
+  gain_b?: number;
+  // Only written when shifts are exported relative to the artboard
+  artboard_width?: number;
+  artboard_height?: number;
+}
+
+// Row-major 2x3 matrix as consumed by cv2.warpAffine (source pixels -> output canvas)
+export type AffineMatrix = [[number, number, number], [number, number, number]];
+
+export interface ExportDataV2 {
+  filename: string;
+  layer_order: number;
+  shift_x: number; // top-left of the rotated bounding box, unrounded
+  shift_y: number;
+  rotate: number; // degrees, clockwise
+  scale: number;
+  opacity: number;
+  visible: boolean;
+  width: number; // natural image size
+  height: number;
+  crop_x: number; // source region to slice before flipping/warping (whole image when uncropped)
+  crop_y: number;
+  crop_width: number;
+  crop_height: number;
+  bbox_width: number; // of the cropped image
+  bbox_height: number;
+  flip_x: boolean; // mirror the (cropped) image with cv2.flip before scaling and rotating
+  flip_y: boolean;
+  brightness: number; // exposure compensation, applied to the cropped image before warping
+  contrast: number;
+  gain_r: number;
+  gain_g: number;
+  gain_b: number;
+  matrix?: AffineMatrix; // maps pixels of the cropped image
+}
+
+export interface ExportDocumentV2 {
+  schema: 'stitchcraft-layout';
+  version: 2;
+  // The artboard (with origin 0, 0) when shifts are exported relative to it
+  canvas: {
+    width: number;
+    height: number;
+    origin_x: number; // canvas-space position of output pixel (0, 0)
+    origin_y: number;
+  };
+  layers: ExportDataV2[];
+}
+
+// Layer as stored in a .stitchcraft project manifest (image bytes live in the archive)
+export interface ProjectLayerRecord extends Omit<Layer, 'file' | 'imageUrl'> {
+  image: string; // archive path of the original image bytes
+  mimeType: string;
+  lastModified: number;
+}
+
+export interface ProjectManifest {
+  format: 'stitchcraft-project';
+  version: number;
+  layers: ProjectLayerRecord[]; // bottom-to-top, same as the layers state
+  checkedLayers: string[];
+  angleStep: number;
+  artboard?: Artboard | null; // absent in projects saved before artboards existed
+  guides?: Guide[]; // likewise
+  calibration?: Calibration | null;
+  viewport: {
+    zoom: number;
+    pan: Coordinates;
+  };
+}
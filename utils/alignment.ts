@@ -0,0 +1,163 @@
+import { Layer, Coordinates } from '../types';
+import { Similarity, getCropRect, sourceToCanvas, transformLayer } from './geometry';
+import { getGrayImage } from './imageData';
+import { detectFeatures, matchFeatures } from './features';
+
+// Estimates how to move one layer onto another. All point pairs live in canvas space:
+// `from` is where a feature currently sits on the moving layer, `to` where it should go.
+
+export type AlignmentModel = 'rigid' | 'similarity';
+
+export interface PointPair {
+  from: Coordinates;
+  to: Coordinates;
+}
+
+export interface FeatureAlignResult {
+  layer: Layer; // the moving layer with the estimate applied
+  transform: Similarity;
+  matches: number;
+  inliers: number;
+  rmsError: number; // canvas pixels, over inliers
+}
+
+// Longest side of the images fed to the detector; keeps alignment well under a second
+const MAX_ANALYSIS_SIDE = 1024;
+const RANSAC_ITERATIONS = 1000;
+const MIN_INLIERS = 6;
+
+// Closed-form least squares (Umeyama in complex form): w = s * e^{i*phi} * z + t
+export const estimateSimilarity = (pairs: PointPair[], model: AlignmentModel): Similarity | null => {
+  const n = pairs.length;
+  if (n === 0) return null;
+
+  let fx = 0, fy = 0, tx = 0, ty = 0;
+  pairs.forEach(p => {
+    fx += p.from.x; fy += p.from.y;
+    tx += p.to.x; ty += p.to.y;
+  });
+  fx /= n; fy /= n; tx /= n; ty /= n;
+
+  let re = 0, im = 0, den = 0;
+  pairs.forEach(p => {
+    const zx = p.from.x - fx, zy = p.from.y - fy;
+    const wx = p.to.x - tx, wy = p.to.y - ty;
+    re += zx * wx + zy * wy;
+    im += zx * wy - zy * wx;
+    den += zx * zx + zy * zy;
+  });
+
+  // A single pair (or coincident points) only constrains translation
+  if (den < 1e-9) {
+    return n === 1 || den === 0 ? { scale: 1, rotation: 0, tx: tx - fx, ty: ty - fy } : null;
+  }
+
+  const phi = Math.atan2(im, re);
+  const scale = model === 'similarity' ? Math.hypot(re, im) / den : 1;
+  const a = scale * Math.cos(phi);
+  const b = scale * Math.sin(phi);
+
+  return {
+    scale,
+    rotation: (phi * 180) / Math.PI,
+    tx: tx - (a * fx - b * fy),
+    ty: ty - (b * fx + a * fy)
+  };
+};
+
+export const pairResiduals = (t: Similarity, pairs: PointPair[]): number[] => {
+  const rad = (t.rotation * Math.PI) / 180;
+  const a = t.scale * Math.cos(rad);
+  const b = t.scale * Math.sin(rad);
+  return pairs.map(p => Math.hypot(
+    a * p.from.x - b * p.from.y + t.tx - p.to.x,
+    b * p.from.x + a * p.from.y + t.ty - p.to.y
+  ));
+};
+
+export const rmsOf = (values: number[]) =>
+  values.length === 0 ? 0 : Math.sqrt(values.reduce((sum, v) => sum + v * v, 0) / values.length);
+
+export const ransacSimilarity = (pairs: PointPair[], model: AlignmentModel, threshold: number) => {
+  let bestInliers: number[] = [];
+
+  for (let iter = 0; iter < RANSAC_ITERATIONS && pairs.length >= 2; iter++) {
+    const i = Math.floor(Math.random() * pairs.length);
+    let j = Math.floor(Math.random() * (pairs.length - 1));
+    if (j >= i) j++;
+    // Near-coincident samples give an unstable rotation
+    if (Math.hypot(pairs[i].from.x - pairs[j].from.x, pairs[i].from.y - pairs[j].from.y) < threshold * 4) continue;
+
+    const candidate = estimateSimilarity([pairs[i], pairs[j]], model);
+    if (!candidate) continue;
+    const inliers = pairResiduals(candidate, pairs)
+      .map((r, index) => (r < threshold ? index : -1))
+      .filter(index => index !== -1);
+    if (inliers.length > bestInliers.length) {
+      bestInliers = inliers;
+      if (inliers.length > pairs.length * 0.9) break;
+    }
+  }
+
+  if (bestInliers.length < 2) return null;
+
+  // Refit on the consensus set, then re-collect inliers against the refined model
+  let transform = estimateSimilarity(bestInliers.map(i => pairs[i]), model);
+  if (!transform) return null;
+  const refined = pairResiduals(transform, pairs)
+    .map((r, index) => (r < threshold ? index : -1))
+    .filter(index => index !== -1);
+  if (refined.length >= bestInliers.length) {
+    bestInliers = refined;
+    transform = estimateSimilarity(bestInliers.map(i => pairs[i]), model) || transform;
+  }
+
+  return { transform, inliers: bestInliers };
+};
+
+export const featureAlign = async (reference: Layer, moving: Layer, model: AlignmentModel): Promise<FeatureAlignResult> => {
+  // Analyse both images at the same canvas resolution so features have comparable scale
+  const refCrop = getCropRect(reference);
+  const movCrop = getCropRect(moving);
+  const longest = Math.max(
+    refCrop.width * reference.scale, refCrop.height * reference.scale,
+    movCrop.width * moving.scale, movCrop.height * moving.scale
+  );
+  const canvasScale = Math.min(1, MAX_ANALYSIS_SIDE / longest);
+
+  const [refImage, movImage] = await Promise.all([
+    getGrayImage(reference, canvasScale * reference.scale),
+    getGrayImage(moving, canvasScale * moving.scale)
+  ]);
+  const refFeatures = detectFeatures(refImage);
+  const movFeatures = detectFeatures(movImage);
+  const matches = matchFeatures(movFeatures, refFeatures);
+
+  const pairs: PointPair[] = matches.map(m => {
+    const from = movFeatures.keypoints[m.a];
+    const to = refFeatures.keypoints[m.b];
+    return {
+      from: sourceToCanvas(moving, { x: movCrop.x + from.x / movImage.scale, y: movCrop.y + from.y / movImage.scale }),
+      to: sourceToCanvas(reference, { x: refCrop.x + to.x / refImage.scale, y: refCrop.y + to.y / refImage.scale })
+    };
+  });
+
+  // Tolerance of ~3 analysis pixels, expressed in canvas pixels
+  const threshold = Math.max(2, 3 / canvasScale);
+  const estimate = ransacSimilarity(pairs, model, threshold);
+  if (!estimate || estimate.inliers.length < MIN_INLIERS) {
+    throw new Error(
+      `Not enough reliable matches (${estimate ? estimate.inliers.length : 0} inliers from ${matches.length} matches). ` +
+      'Make sure the layers overlap and have visible texture.'
+    );
+  }
+
+  const inlierPairs = estimate.inliers.map(i => pairs[i]);
+  return {
+    layer: transformLayer(moving, estimate.transform),
+    transform: estimate.transform,
+    matches: matches.length,
+    inliers: estimate.inliers.length,
+    rmsError: rmsOf(pairResiduals(estimate.transform, inlierPairs))
+  };
+};
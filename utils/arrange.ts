@@ -0,0 +1,73 @@
+import { Layer } from '../types';
+import { Bounds, getLayersBounds } from './geometry';
+
+// Align and distribute for multi-selections. Everything works on the rotated bounding
+// boxes, which is also what layer.x / layer.y refer to, so only positions change.
+
+export type AlignEdge = 'left' | 'center-x' | 'right' | 'top' | 'center-y' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+// 'gaps': equal empty space between neighbours; 'centers': equal centre-to-centre spacing
+export type DistributeMode = 'gaps' | 'centers';
+
+const boundsOf = (layer: Layer): Bounds => getLayersBounds([layer]) as Bounds;
+
+// Lines the selected layers up with the matching edge (or centre) of the selection's bounds
+export const alignLayers = (layers: Layer[], ids: Set<string>, edge: AlignEdge): Layer[] => {
+  const target = getLayersBounds(layers.filter(l => ids.has(l.id)));
+  if (!target) return layers;
+
+  return layers.map(layer => {
+    if (!ids.has(layer.id)) return layer;
+    const b = boundsOf(layer);
+    const width = b.maxX - b.minX;
+    const height = b.maxY - b.minY;
+    switch (edge) {
+      case 'left': return { ...layer, x: target.minX };
+      case 'center-x': return { ...layer, x: (target.minX + target.maxX - width) / 2 };
+      case 'right': return { ...layer, x: target.maxX - width };
+      case 'top': return { ...layer, y: target.minY };
+      case 'center-y': return { ...layer, y: (target.minY + target.maxY - height) / 2 };
+      case 'bottom': return { ...layer, y: target.maxY - height };
+    }
+  });
+};
+
+// Spreads the selected layers between the outermost two, which stay in place.
+// Needs at least three layers to change anything.
+export const distributeLayers = (layers: Layer[], ids: Set<string>, axis: DistributeAxis, mode: DistributeMode): Layer[] => {
+  const horizontal = axis === 'horizontal';
+  const items = layers
+    .filter(l => ids.has(l.id))
+    .map(layer => {
+      const b = boundsOf(layer);
+      const start = horizontal ? b.minX : b.minY;
+      const size = horizontal ? b.maxX - b.minX : b.maxY - b.minY;
+      return { id: layer.id, start, size, center: start + size / 2 };
+    })
+    .sort((a, b) => a.center - b.center);
+  if (items.length < 3) return layers;
+
+  const first = items[0];
+  const last = items[items.length - 1];
+  const starts = new Map<string, number>();
+
+  if (mode === 'centers') {
+    const step = (last.center - first.center) / (items.length - 1);
+    items.forEach((item, i) => starts.set(item.id, first.center + step * i - item.size / 2));
+  } else {
+    // Free space between the outer edges, shared equally (negative when the boxes overlap)
+    const occupied = items.reduce((sum, item) => sum + item.size, 0);
+    const gap = (last.start + last.size - first.start - occupied) / (items.length - 1);
+    let cursor = first.start;
+    items.forEach(item => {
+      starts.set(item.id, cursor);
+      cursor += item.size + gap;
+    });
+  }
+
+  return layers.map(layer => {
+    const start = starts.get(layer.id);
+    if (start === undefined) return layer;
+    return horizontal ? { ...layer, x: start } : { ...layer, y: start };
+  });
+};
@@ -0,0 +1,85 @@
+import { Layer, Artboard, Guide, HistoryEntry, Calibration, Coordinates } from '../types';
+
+// Background session snapshot in IndexedDB, used to recover after a crash or closed tab.
+// Files are stored as-is (IndexedDB clones Blobs natively); blob URLs are not valid
+// across page loads, so they are recreated on restore.
+
+const DB_NAME = 'stitchcraft';
+const DB_VERSION = 1;
+const STORE_NAME = 'session';
+const SESSION_KEY = 'current';
+
+export interface AutosaveSession {
+  savedAt: number;
+  layers: Layer[];
+  history: HistoryEntry[];
+  future: HistoryEntry[];
+  checkedLayers: string[];
+  artboard?: Artboard | null;
+  guides?: Guide[];
+  calibration?: Calibration | null;
+  zoom: number;
+  pan: Coordinates;
+}
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+      request.result.createObjectStore(STORE_NAME);
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, mode);
+      const request = run(tx.objectStore(STORE_NAME));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveSession = async (session: AutosaveSession): Promise<void> => {
+  await withStore('readwrite', store => store.put(session, SESSION_KEY));
+};
+
+export const clearSession = async (): Promise<void> => {
+  await withStore('readwrite', store => store.delete(SESSION_KEY));
+};
+
+export const loadSession = async (): Promise<AutosaveSession | null> => {
+  const session = await withStore<AutosaveSession | undefined>('readonly', store => store.get(SESSION_KEY));
+  if (!session || !Array.isArray(session.layers)) return null;
+
+  // One fresh URL per stored image, shared by every snapshot that referenced it
+  const urls = new Map<string, string>();
+  const relink = (layer: Layer): Layer => {
+    let url = urls.get(layer.imageUrl);
+    if (!url) {
+      url = URL.createObjectURL(layer.file);
+      urls.set(layer.imageUrl, url);
+    }
+    return { ...layer, imageUrl: url };
+  };
+  // Sessions saved before history entries carried a scene shift stored bare layer arrays
+  const relinkEntry = (entry: HistoryEntry | Layer[]): HistoryEntry =>
+    Array.isArray(entry)
+      ? { layers: entry.map(relink) }
+      : { ...entry, layers: entry.layers.map(relink) };
+
+  return {
+    ...session,
+    layers: session.layers.map(relink),
+    history: (session.history || []).map(relinkEntry),
+    future: (session.future || []).map(relinkEntry)
+  };
+};
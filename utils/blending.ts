@@ -0,0 +1,306 @@
+import { Layer } from '../types';
+import { Bounds, getLayerDimensions, getCropRect, canvasToSource } from './geometry';
+import { drawLayer } from './imageData';
+
+// Seam blending for composites. Instead of painting layers over each other, overlapping
+// layers are mixed by how far each output pixel lies inside each layer's footprint: the
+// rotated, scaled crop rectangle whose bounding box calculateRotatedDimensions describes.
+//   feather:   weighted average with weights ramping from 0 at the footprint edge to 1 at
+//              `featherWidth` canvas pixels inside
+//   multiband: every pixel is assigned to the layer it lies deepest in; those hard masks are
+//              then blended per frequency band (Laplacian pyramids), so fine detail switches
+//              sharply at the seam while brightness and colour transition over ~featherWidth
+// Stacking order does not matter in either mode. Opacity only lowers the output coverage.
+
+export type SeamBlend = 'none' | 'feather' | 'multiband';
+
+export interface BlendInput {
+  layer: Layer;
+  image: CanvasImageSource; // already exposure-adjusted
+}
+
+// Float accumulators cost ~35 bytes per output pixel for multi-band
+export const MAX_BLEND_AREA = 16e6;
+
+const MAX_LEVELS = 7;
+// Pixels whose centre lies just outside a footprint still carry anti-aliased colour
+const MIN_WEIGHT = 1e-3;
+
+interface Region {
+  x: number; // output pixels
+  y: number;
+  width: number;
+  height: number;
+}
+
+const getLayerRegion = (layer: Layer, bounds: Bounds, resolution: number, pad: number, unit: number, limitW: number, limitH: number): Region | null => {
+  const dims = getLayerDimensions(layer);
+  const snapDown = (v: number) => Math.floor(v / unit) * unit;
+  const snapUp = (v: number) => Math.ceil(v / unit) * unit;
+  const x0 = Math.max(0, snapDown(Math.floor((layer.x - bounds.minX) * resolution) - pad));
+  const y0 = Math.max(0, snapDown(Math.floor((layer.y - bounds.minY) * resolution) - pad));
+  const x1 = Math.min(limitW, snapUp(Math.ceil((layer.x + dims.width - bounds.minX) * resolution) + pad));
+  const y1 = Math.min(limitH, snapUp(Math.ceil((layer.y + dims.height - bounds.minY) * resolution) + pad));
+  if (x1 <= x0 || y1 <= y0) return null;
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+};
+
+// Distance of each region pixel centre inside the layer's footprint, in output pixels (0 outside)
+const getEdgeDistance = (layer: Layer, region: Region, bounds: Bounds, resolution: number): Float32Array => {
+  const crop = getCropRect(layer);
+  const toOutput = layer.scale * resolution;
+  // The canvas -> source mapping is affine, so step it per pixel instead of inverting each time
+  const at = (px: number, py: number) => canvasToSource(layer, {
+    x: bounds.minX + (px + 0.5) / resolution,
+    y: bounds.minY + (py + 0.5) / resolution
+  });
+  const origin = at(region.x, region.y);
+  const stepX = at(region.x + 1, region.y);
+  const stepY = at(region.x, region.y + 1);
+  const dux = stepX.x - origin.x, dvx = stepX.y - origin.y;
+  const duy = stepY.x - origin.x, dvy = stepY.y - origin.y;
+
+  const edge = new Float32Array(region.width * region.height);
+  for (let y = 0, i = 0; y < region.height; y++) {
+    for (let x = 0; x < region.width; x++, i++) {
+      const u = origin.x + dux * x + duy * y - crop.x;
+      const v = origin.y + dvx * x + dvy * y - crop.y;
+      const d = Math.min(u, crop.width - u, v, crop.height - v);
+      edge[i] = d > 0 ? d * toOutput : 0;
+    }
+  }
+  return edge;
+};
+
+// Layer pixels over the region, straight (non-premultiplied) RGBA
+const renderRegion = ({ layer, image }: BlendInput, region: Region, bounds: Bounds, resolution: number): Uint8ClampedArray => {
+  const canvas = document.createElement('canvas');
+  canvas.width = region.width;
+  canvas.height = region.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.translate(-region.x, -region.y);
+  ctx.scale(resolution, resolution);
+  ctx.translate(-bounds.minX, -bounds.minY);
+  drawLayer(ctx, image, layer);
+  return ctx.getImageData(0, 0, region.width, region.height).data;
+};
+
+const toImageData = (color: Float32Array[], keep: Float32Array, width: number, height: number, stride: number) => {
+  const out = new ImageData(width, height);
+  for (let y = 0, p = 0; y < height; y++) {
+    for (let x = 0; x < width; x++, p += 4) {
+      const i = y * stride + x;
+      // Uint8ClampedArray rounds and clamps on assignment
+      out.data[p] = color[0][i] * 255;
+      out.data[p + 1] = color[1][i] * 255;
+      out.data[p + 2] = color[2][i] * 255;
+      out.data[p + 3] = (1 - keep[i]) * 255;
+    }
+  }
+  return out;
+};
+
+const blendFeather = (inputs: BlendInput[], bounds: Bounds, resolution: number, width: number, height: number, featherWidth: number) => {
+  const n = width * height;
+  const sums = [new Float32Array(n), new Float32Array(n), new Float32Array(n)];
+  const weights = new Float32Array(n);
+  const keep = new Float32Array(n).fill(1); // product of (1 - alpha): uncovered share
+
+  const ramp = featherWidth * resolution;
+  for (const input of inputs) {
+    const region = getLayerRegion(input.layer, bounds, resolution, 1, 1, width, height);
+    if (!region) continue;
+    const edge = getEdgeDistance(input.layer, region, bounds, resolution);
+    const data = renderRegion(input, region, bounds, resolution);
+    for (let y = 0, i = 0; y < region.height; y++) {
+      for (let x = 0; x < region.width; x++, i++) {
+        const alpha = (data[i * 4 + 3] / 255) * input.layer.opacity;
+        if (alpha <= 0) continue;
+        const w = alpha * Math.max(MIN_WEIGHT, ramp > 0 ? Math.min(1, edge[i] / ramp) : edge[i] > 0 ? 1 : 0);
+        const o = (region.y + y) * width + region.x + x;
+        for (let c = 0; c < 3; c++) sums[c][o] += w * data[i * 4 + c] / 255;
+        weights[o] += w;
+        keep[o] *= 1 - alpha;
+      }
+    }
+  }
+
+  for (let i = 0; i < n; i++) {
+    if (weights[i] > 0) for (let c = 0; c < 3; c++) sums[c][i] /= weights[i];
+  }
+  return toImageData(sums, keep, width, height, width);
+};
+
+// --- Pyramids (5-tap binomial kernel, edges clamped) ---
+
+const reduce = (src: Float32Array, w: number, h: number): Float32Array => {
+  const hw = w / 2, hh = h / 2;
+  const clampX = (x: number) => Math.min(w - 1, Math.max(0, x));
+  const clampY = (y: number) => Math.min(h - 1, Math.max(0, y));
+  const tmp = new Float32Array(hw * h);
+  for (let y = 0; y < h; y++) {
+    const row = y * w;
+    for (let x = 0; x < hw; x++) {
+      const cx = 2 * x;
+      tmp[y * hw + x] = (src[row + clampX(cx - 2)] + 4 * src[row + clampX(cx - 1)] + 6 * src[row + cx] +
+        4 * src[row + clampX(cx + 1)] + src[row + clampX(cx + 2)]) / 16;
+    }
+  }
+  const out = new Float32Array(hw * hh);
+  for (let y = 0; y < hh; y++) {
+    const cy = 2 * y;
+    for (let x = 0; x < hw; x++) {
+      out[y * hw + x] = (tmp[clampY(cy - 2) * hw + x] + 4 * tmp[clampY(cy - 1) * hw + x] + 6 * tmp[cy * hw + x] +
+        4 * tmp[clampY(cy + 1) * hw + x] + tmp[clampY(cy + 2) * hw + x]) / 16;
+    }
+  }
+  return out;
+};
+
+// Inverse of reduce: doubles the size, interpolating with the same kernel
+const expand = (src: Float32Array, w: number, h: number): Float32Array => {
+  const ow = w * 2, oh = h * 2;
+  const clampX = (x: number) => Math.min(w - 1, Math.max(0, x));
+  const clampY = (y: number) => Math.min(h - 1, Math.max(0, y));
+  const tmp = new Float32Array(ow * h);
+  for (let y = 0; y < h; y++) {
+    const row = y * w;
+    for (let x = 0; x < w; x++) {
+      tmp[y * ow + 2 * x] = (src[row + clampX(x - 1)] + 6 * src[row + x] + src[row + clampX(x + 1)]) / 8;
+      tmp[y * ow + 2 * x + 1] = (src[row + x] + src[row + clampX(x + 1)]) / 2;
+    }
+  }
+  const out = new Float32Array(ow * oh);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < ow; x++) {
+      const above = tmp[clampY(y - 1) * ow + x], here = tmp[y * ow + x], below = tmp[clampY(y + 1) * ow + x];
+      out[2 * y * ow + x] = (above + 6 * here + below) / 8;
+      out[(2 * y + 1) * ow + x] = (here + below) / 2;
+    }
+  }
+  return out;
+};
+
+const gaussianPyramid = (base: Float32Array, w: number, h: number, levels: number): Float32Array[] => {
+  const pyramid = [base];
+  for (let k = 0; k < levels; k++) pyramid.push(reduce(pyramid[k], w >> k, h >> k));
+  return pyramid;
+};
+
+const blendMultiband = (inputs: BlendInput[], bounds: Bounds, resolution: number, width: number, height: number, featherWidth: number) => {
+  // The colour transition across a seam spans about 3.5 pixels of the coarsest level, so pick
+  // the depth that makes it roughly the feather width
+  const levels = Math.max(1, Math.min(MAX_LEVELS, Math.round(Math.log2(Math.max(1, featherWidth * resolution) / 3.5))));
+  const unit = 1 << levels;
+  const W = Math.ceil(width / unit) * unit;
+  const H = Math.ceil(height / unit) * unit;
+  const pad = unit * 2;
+
+  // Seams: each pixel belongs to the layer it lies deepest in (the top one on ties)
+  const owner = new Int16Array(width * height).fill(-1);
+  const depth = new Float32Array(width * height);
+  inputs.forEach((input, index) => {
+    const region = getLayerRegion(input.layer, bounds, resolution, 0, 1, width, height);
+    if (!region) return;
+    const edge = getEdgeDistance(input.layer, region, bounds, resolution);
+    for (let y = 0, i = 0; y < region.height; y++) {
+      for (let x = 0; x < region.width; x++, i++) {
+        const o = (region.y + y) * width + region.x + x;
+        if (edge[i] > 0 && edge[i] >= depth[o]) {
+          depth[o] = edge[i];
+          owner[o] = index;
+        }
+      }
+    }
+  });
+
+  // Per level: mask-weighted Laplacian sums (r, g, b) and mask sums
+  const bands = Array.from({ length: levels + 1 }, (_, k) => {
+    const size = (W >> k) * (H >> k);
+    return { color: [new Float32Array(size), new Float32Array(size), new Float32Array(size)], weight: new Float32Array(size) };
+  });
+  const keep = new Float32Array(W * H).fill(1);
+
+  inputs.forEach((input, index) => {
+    const region = getLayerRegion(input.layer, bounds, resolution, pad, unit, W, H);
+    if (!region) return;
+    const { width: rw, height: rh } = region;
+    const data = renderRegion(input, region, bounds, resolution);
+
+    const premultiplied = [new Float32Array(rw * rh), new Float32Array(rw * rh), new Float32Array(rw * rh)];
+    const alpha = new Float32Array(rw * rh);
+    const mask = new Float32Array(rw * rh);
+    for (let y = 0, i = 0; y < rh; y++) {
+      const oy = region.y + y;
+      for (let x = 0; x < rw; x++, i++) {
+        const ox = region.x + x;
+        const a = (data[i * 4 + 3] / 255) * input.layer.opacity;
+        alpha[i] = a;
+        for (let c = 0; c < 3; c++) premultiplied[c][i] = (data[i * 4 + c] / 255) * a;
+        if (ox < width && oy < height) {
+          keep[oy * W + ox] *= 1 - a;
+          if (owner[oy * width + ox] === index) mask[i] = 1;
+        }
+      }
+    }
+
+    const alphaPyramid = gaussianPyramid(alpha, rw, rh, levels);
+    const maskPyramid = gaussianPyramid(mask, rw, rh, levels);
+    // Colour is normalized by coverage at every level, which extends it smoothly past the
+    // footprint edge instead of fading into the transparent surroundings
+    const colorPyramids = premultiplied.map(plane => gaussianPyramid(plane, rw, rh, levels).map((level, k) => {
+      const a = alphaPyramid[k];
+      for (let i = 0; i < level.length; i++) level[i] = a[i] > 1e-6 ? level[i] / a[i] : 0;
+      return level;
+    }));
+
+    for (let k = 0; k <= levels; k++) {
+      const lw = rw >> k, lh = rh >> k;
+      const stride = W >> k;
+      const offset = (region.y >> k) * stride + (region.x >> k);
+      const m = maskPyramid[k];
+      const laplacians = colorPyramids.map(pyramid => {
+        if (k === levels) return pyramid[k];
+        const coarse = expand(pyramid[k + 1], lw / 2, lh / 2);
+        return pyramid[k].map((v, i) => v - coarse[i]);
+      });
+      const band = bands[k];
+      for (let y = 0, i = 0; y < lh; y++) {
+        const row = offset + y * stride;
+        for (let x = 0; x < lw; x++, i++) {
+          if (m[i] <= 0) continue;
+          for (let c = 0; c < 3; c++) band.color[c][row + x] += m[i] * laplacians[c][i];
+          band.weight[row + x] += m[i];
+        }
+      }
+    }
+  });
+
+  // Collapse from the coarsest band
+  let color: Float32Array[] = [];
+  for (let k = levels; k >= 0; k--) {
+    const band = bands[k];
+    const normalized = band.color.map(plane => plane.map((v, i) => band.weight[i] > 0 ? v / band.weight[i] : 0));
+    color = k === levels
+      ? normalized
+      : normalized.map((plane, c) => {
+          const coarse = expand(color[c], W >> (k + 1), H >> (k + 1));
+          return plane.map((v, i) => v + coarse[i]);
+        });
+  }
+  return toImageData(color, keep, width, height, W);
+};
+
+export const renderBlended = (inputs: BlendInput[], bounds: Bounds, resolution: number, width: number, height: number, mode: Exclude<SeamBlend, 'none'>, featherWidth: number): ImageData => {
+  if (width * height > MAX_BLEND_AREA) {
+    throw new Error(`Seam blending is limited to ${Math.round(MAX_BLEND_AREA / 1e6)} megapixels; the output is ${(width * height / 1e6).toFixed(1)}. Lower the resolution multiplier or choose "None".`);
+  }
+  return mode === 'feather'
+    ? blendFeather(inputs, bounds, resolution, width, height, featherWidth)
+    : blendMultiband(inputs, bounds, resolution, width, height, featherWidth);
+};
@@ -0,0 +1,106 @@
+import { Layer, Artboard } from '../types';
+import { getLayersBounds, Bounds } from './geometry';
+import { loadImage, drawLayer } from './imageData';
+import { getAdjustedImage } from './exposure';
+import { renderBlended, SeamBlend } from './blending';
+
+// Rasterizes the layout the same way the canvas shows it: each layer is centred in its
+// rotated bounding box (top-left at x/y), rotated about its centre, scaled, then drawn
+// bottom-to-top with its opacity and exposure adjustment. With a seam blend the overlaps are
+// mixed instead of stacked (see blending.ts).
+
+export type CompositeFormat = 'image/png' | 'image/webp';
+
+export interface CompositeOptions {
+  format: CompositeFormat;
+  background: string | null; // CSS colour, or null for transparent
+  bounds: 'all' | 'checked' | 'artboard';
+  resolution: number; // output pixels per canvas pixel
+  blend: SeamBlend;
+  featherWidth: number; // canvas pixels
+}
+
+// Conservative limits that hold across current browsers
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 16384 * 16384 / 2;
+
+export const getCompositeBounds = (layers: Layer[], checkedLayers: Set<string>, bounds: CompositeOptions['bounds'], artboard: Artboard | null = null): Bounds | null => {
+  if (bounds === 'artboard') {
+    return artboard && { minX: artboard.x, minY: artboard.y, maxX: artboard.x + artboard.width, maxY: artboard.y + artboard.height };
+  }
+  // Only visible layers are drawn, so hidden checked layers must not widen the output
+  const source = bounds === 'checked'
+    ? layers.filter(l => checkedLayers.has(l.id) && l.visible)
+    : layers.filter(l => l.visible);
+  return getLayersBounds(source);
+};
+
+export const getCompositeSize = (bounds: Bounds, resolution: number) => ({
+  width: Math.max(1, Math.ceil((bounds.maxX - bounds.minX) * resolution)),
+  height: Math.max(1, Math.ceil((bounds.maxY - bounds.minY) * resolution))
+});
+
+export const renderComposite = async (layers: Layer[], checkedLayers: Set<string>, options: CompositeOptions, artboard: Artboard | null = null): Promise<Blob> => {
+  const bounds = getCompositeBounds(layers, checkedLayers, options.bounds, artboard);
+  if (!bounds) {
+    throw new Error('There are no layers inside the selected bounds');
+  }
+
+  const { width, height } = getCompositeSize(bounds, options.resolution);
+  if (width > MAX_CANVAS_SIDE || height > MAX_CANVAS_SIDE || width * height > MAX_CANVAS_AREA) {
+    throw new Error(`Output of ${width} x ${height} px is larger than the browser can render. Lower the resolution multiplier.`);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  if (options.background) {
+    ctx.fillStyle = options.background;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+
+  if (options.blend !== 'none') {
+    const inputs = [];
+    for (const layer of layers) {
+      if (!layer.visible) continue;
+      inputs.push({ layer, image: getAdjustedImage(await loadImage(layer.imageUrl), layer) });
+    }
+    const blended = renderBlended(inputs, bounds, options.resolution, width, height, options.blend, options.featherWidth);
+    // putImageData would replace the background instead of drawing over it
+    const scratch = document.createElement('canvas');
+    scratch.width = width;
+    scratch.height = height;
+    scratch.getContext('2d')?.putImageData(blended, 0, 0);
+    ctx.drawImage(scratch, 0, 0);
+  } else {
+    for (const layer of layers) {
+      if (!layer.visible) continue;
+      const img = getAdjustedImage(await loadImage(layer.imageUrl), layer);
+
+      ctx.save();
+      ctx.scale(options.resolution, options.resolution);
+      ctx.translate(-bounds.minX, -bounds.minY);
+      ctx.globalAlpha = layer.opacity;
+      drawLayer(ctx, img, layer);
+      ctx.restore();
+    }
+  }
+
+  // Quality 1 makes Chromium encode WebP losslessly; PNG ignores it
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, options.format, 1));
+  if (!blob) {
+    throw new Error('The browser failed to encode the image');
+  }
+  if (blob.type !== options.format) {
+    throw new Error(`This browser cannot encode ${options.format === 'image/webp' ? 'WebP' : 'PNG'} images`);
+  }
+  return blob;
+};
@@ -0,0 +1,77 @@
+import { Layer, ControlPoint } from '../types';
+import { sourceToCanvas, transformLayer, Similarity } from './geometry';
+import { estimateSimilarity, pairResiduals, rmsOf, AlignmentModel, PointPair } from './alignment';
+
+// Manual correspondences: a point named "A" on the reference and "A" on the moving layer
+// should coincide. Three or more pairs are solved by least squares.
+
+export const MIN_CONTROL_PAIRS = 3;
+
+export interface ControlPointSolution {
+  transform: Similarity;
+  residuals: { name: string; residual: number }[]; // canvas pixels after the fit
+  rmsError: number;
+}
+
+export const getControlPointPairs = (reference: Layer, moving: Layer) => {
+  const refPoints = new Map((reference.controlPoints || []).map(p => [p.name, p]));
+  return (moving.controlPoints || [])
+    .filter(p => refPoints.has(p.name))
+    .map(p => ({ name: p.name, moving: p, reference: refPoints.get(p.name)! }))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+};
+
+const nameAt = (index: number) => {
+  let name = '';
+  let i = index;
+  do {
+    name = String.fromCharCode(65 + (i % 26)) + name;
+    i = Math.floor(i / 26) - 1;
+  } while (i >= 0);
+  return name;
+};
+
+// First name the other layer already has but this one does not, so alternate clicks pair up;
+// otherwise the first unused letter sequence (A..Z, AA..)
+export const nextControlPointName = (layer: Layer, other: Layer) => {
+  const own = new Set((layer.controlPoints || []).map(p => p.name));
+  const waiting = (other.controlPoints || [])
+    .map(p => p.name)
+    .filter(name => !own.has(name))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  if (waiting.length > 0) return waiting[0];
+
+  const taken = new Set([...own, ...(other.controlPoints || []).map(p => p.name)]);
+  for (let i = 0; ; i++) {
+    if (!taken.has(nameAt(i))) return nameAt(i);
+  }
+};
+
+export const createControlPoint = (name: string, x: number, y: number): ControlPoint => ({
+  id: Math.random().toString(36).substr(2, 9),
+  name,
+  x,
+  y
+});
+
+export const solveControlPoints = (reference: Layer, moving: Layer, model: AlignmentModel): ControlPointSolution | null => {
+  const named = getControlPointPairs(reference, moving);
+  if (named.length < MIN_CONTROL_PAIRS) return null;
+
+  const pairs: PointPair[] = named.map(p => ({
+    from: sourceToCanvas(moving, p.moving),
+    to: sourceToCanvas(reference, p.reference)
+  }));
+  const transform = estimateSimilarity(pairs, model);
+  if (!transform) return null;
+
+  const residuals = pairResiduals(transform, pairs);
+  return {
+    transform,
+    residuals: named.map((p, i) => ({ name: p.name, residual: residuals[i] })),
+    rmsError: rmsOf(residuals)
+  };
+};
+
+export const applyControlPointSolution = (moving: Layer, solution: ControlPointSolution) =>
+  transformLayer(moving, solution.transform);
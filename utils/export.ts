@@ -0,0 +1,224 @@
+import { Layer, Artboard, ExportData, ExportDataV2, ExportDocumentV2 } from '../types';
+import { getAffineMatrix, getCropRect, getLayerDimensions, getLayersBounds } from './geometry';
+import { getExposure } from './exposure';
+import { buildPythonScript, PythonBlendMode } from './pythonScript';
+
+// Serializes the layout for downstream pipelines.
+// v1 is the original flat schema (integer shifts) and must stay byte-for-byte stable for old scripts.
+// v2 adds the full transform, source/bbox sizes, the output canvas and optional warpAffine matrices.
+// The Python script format embeds the v2 document in a runnable OpenCV script.
+// Optionally every format expresses shifts relative to the artboard's top-left instead of
+// the canvas origin, and then describes the artboard as the output canvas.
+
+export type ExportFormat = 'json' | 'csv' | 'python';
+export type ExportVersion = 1 | 2;
+
+export interface ExportOptions {
+  version: ExportVersion;
+  includeMatrix: boolean;
+  pythonBlend: PythonBlendMode;
+  pythonOutput: string;
+  relativeToArtboard: boolean; // ignored while there is no artboard
+}
+
+export interface ExportFile {
+  content: string;
+  type: string;
+  filename: string;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  version: 1,
+  includeMatrix: true,
+  pythonBlend: 'alpha',
+  pythonOutput: 'stitched.png',
+  relativeToArtboard: false
+};
+
+// Saved preferences (localStorage) may be stale or hand-edited: unknown keys and invalid
+// values are dropped in favour of the defaults, and unreadable JSON gives the defaults
+export const parseExportOptions = (saved: string | null): ExportOptions => {
+  if (!saved) return DEFAULT_EXPORT_OPTIONS;
+  let raw: Partial<Record<keyof ExportOptions, unknown>>;
+  try {
+    raw = JSON.parse(saved);
+  } catch {
+    return DEFAULT_EXPORT_OPTIONS;
+  }
+  if (!raw || typeof raw !== 'object') return DEFAULT_EXPORT_OPTIONS;
+
+  const options = { ...DEFAULT_EXPORT_OPTIONS };
+  if (raw.version === 1 || raw.version === 2) options.version = raw.version;
+  if (typeof raw.includeMatrix === 'boolean') options.includeMatrix = raw.includeMatrix;
+  if (raw.pythonBlend === 'alpha' || raw.pythonBlend === 'overwrite') options.pythonBlend = raw.pythonBlend;
+  if (typeof raw.pythonOutput === 'string') options.pythonOutput = raw.pythonOutput;
+  if (typeof raw.relativeToArtboard === 'boolean') options.relativeToArtboard = raw.relativeToArtboard;
+  return options;
+};
+
+// Trims float noise (0.30000000000000004) without losing meaningful sub-pixel precision
+const precise = (value: number) => Math.round(value * 1e6) / 1e6;
+
+const csvText = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+const hasFlips = (layers: Layer[]) => layers.some(l => l.flipX || l.flipY);
+const hasCrops = (layers: Layer[]) => layers.some(l => l.crop);
+const hasExposure = (layers: Layer[]) => layers.some(l => l.exposure);
+
+const toArtboardSpace = (layers: Layer[], artboard: Artboard): Layer[] =>
+  layers.map(l => ({ ...l, x: l.x - artboard.x, y: l.y - artboard.y }));
+
+const toV1 = (layers: Layer[], artboard: Artboard | null): ExportData[] => {
+  const withFlips = hasFlips(layers);
+  const withCrops = hasCrops(layers);
+  const withExposure = hasExposure(layers);
+  return layers.map((layer, index) => {
+    const crop = getCropRect(layer);
+    const exposure = getExposure(layer);
+    return {
+      filename: layer.name,
+      shift_x: Math.round(layer.x),
+      shift_y: Math.round(layer.y),
+      rotate: Math.round(layer.rotation * 100) / 100,
+      layer_order: index,
+      ...(withFlips && { flip_x: !!layer.flipX, flip_y: !!layer.flipY }),
+      ...(withCrops && { crop_x: crop.x, crop_y: crop.y, crop_width: crop.width, crop_height: crop.height }),
+      ...(withExposure && {
+        brightness: precise(exposure.brightness),
+        contrast: precise(exposure.contrast),
+        gain_r: precise(exposure.gain[0]),
+        gain_g: precise(exposure.gain[1]),
+        gain_b: precise(exposure.gain[2])
+      }),
+      ...(artboard && { artboard_width: artboard.width, artboard_height: artboard.height })
+    };
+  });
+};
+
+// With an artboard, `layers` must already be in artboard space (see toArtboardSpace)
+export const toExportDocumentV2 = (layers: Layer[], includeMatrix: boolean, artboard: Artboard | null = null): ExportDocumentV2 => {
+  const bounds = getLayersBounds(layers) || { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  const origin = artboard ? { x: 0, y: 0 } : { x: Math.floor(bounds.minX), y: Math.floor(bounds.minY) };
+
+  return {
+    schema: 'stitchcraft-layout',
+    version: 2,
+    canvas: {
+      width: artboard ? artboard.width : Math.ceil(bounds.maxX) - origin.x,
+      height: artboard ? artboard.height : Math.ceil(bounds.maxY) - origin.y,
+      origin_x: origin.x,
+      origin_y: origin.y
+    },
+    layers: layers.map((layer, index) => {
+      const dims = getLayerDimensions(layer);
+      const crop = getCropRect(layer);
+      const exposure = getExposure(layer);
+      const record: ExportDataV2 = {
+        filename: layer.name,
+        layer_order: index,
+        shift_x: precise(layer.x),
+        shift_y: precise(layer.y),
+        rotate: precise(layer.rotation),
+        scale: precise(layer.scale),
+        opacity: precise(layer.opacity),
+        visible: layer.visible,
+        width: layer.width,
+        height: layer.height,
+        crop_x: crop.x,
+        crop_y: crop.y,
+        crop_width: crop.width,
+        crop_height: crop.height,
+        bbox_width: precise(dims.width),
+        bbox_height: precise(dims.height),
+        flip_x: !!layer.flipX,
+        flip_y: !!layer.flipY,
+        brightness: precise(exposure.brightness),
+        contrast: precise(exposure.contrast),
+        gain_r: precise(exposure.gain[0]),
+        gain_g: precise(exposure.gain[1]),
+        gain_b: precise(exposure.gain[2])
+      };
+      if (includeMatrix) {
+        // Consumers slice the crop first, so shift the matrix to the crop's own pixel grid
+        const m = getAffineMatrix(layer, origin);
+        m[0][2] += m[0][0] * crop.x + m[0][1] * crop.y;
+        m[1][2] += m[1][0] * crop.x + m[1][1] * crop.y;
+        record.matrix = [m[0].map(precise), m[1].map(precise)] as ExportDataV2['matrix'];
+      }
+      return record;
+    })
+  };
+};
+
+const MATRIX_COLUMNS = ['m00', 'm01', 'm02', 'm10', 'm11', 'm12'];
+
+const toCsvV2 = (doc: ExportDocumentV2, includeMatrix: boolean) => {
+  // CSV has no document level, so the schema version and canvas are repeated on every row
+  const headers = [
+    'filename', 'layer_order', 'shift_x', 'shift_y', 'rotate', 'scale', 'opacity', 'visible',
+    'width', 'height', 'crop_x', 'crop_y', 'crop_width', 'crop_height', 'bbox_width', 'bbox_height', 'flip_x', 'flip_y',
+    'brightness', 'contrast', 'gain_r', 'gain_g', 'gain_b',
+    ...(includeMatrix ? MATRIX_COLUMNS : []),
+    'canvas_width', 'canvas_height', 'canvas_origin_x', 'canvas_origin_y', 'schema_version'
+  ];
+  const rows = doc.layers.map(l => [
+    csvText(l.filename), l.layer_order, l.shift_x, l.shift_y, l.rotate, l.scale, l.opacity, l.visible ? 1 : 0,
+    l.width, l.height, l.crop_x, l.crop_y, l.crop_width, l.crop_height, l.bbox_width, l.bbox_height, l.flip_x ? 1 : 0, l.flip_y ? 1 : 0,
+    l.brightness, l.contrast, l.gain_r, l.gain_g, l.gain_b,
+    ...(includeMatrix && l.matrix ? [...l.matrix[0], ...l.matrix[1]] : []),
+    doc.canvas.width, doc.canvas.height, doc.canvas.origin_x, doc.canvas.origin_y, doc.version
+  ]);
+  return [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
+};
+
+export const buildExport = (allLayers: Layer[], format: ExportFormat, options: ExportOptions, artboardOption: Artboard | null = null): ExportFile => {
+  const artboard = options.relativeToArtboard ? artboardOption : null;
+  const layers = artboard ? toArtboardSpace(allLayers, artboard) : allLayers;
+
+  if (format === 'python') {
+    return {
+      content: buildPythonScript(toExportDocumentV2(layers, false, artboard), {
+        blend: options.pythonBlend,
+        outputPath: options.pythonOutput
+      }),
+      type: 'text/x-python',
+      filename: 'stitch.py'
+    };
+  }
+
+  const suffix = options.version === 2 ? '_v2' : '';
+
+  if (format === 'json') {
+    const data = options.version === 2 ? toExportDocumentV2(layers, options.includeMatrix, artboard) : toV1(layers, artboard);
+    return {
+      content: JSON.stringify(data, null, 2),
+      type: 'application/json',
+      filename: `stitching_data${suffix}.json`
+    };
+  }
+
+  let content: string;
+  if (options.version === 2) {
+    content = toCsvV2(toExportDocumentV2(layers, options.includeMatrix, artboard), options.includeMatrix);
+  } else {
+    const withFlips = hasFlips(layers);
+    const withCrops = hasCrops(layers);
+    const withExposure = hasExposure(layers);
+    const headers = [
+      'filename', 'shift_x', 'shift_y', 'rotate', 'layer_order',
+      ...(withFlips ? ['flip_x', 'flip_y'] : []),
+      ...(withCrops ? ['crop_x', 'crop_y', 'crop_width', 'crop_height'] : []),
+      ...(withExposure ? ['brightness', 'contrast', 'gain_r', 'gain_g', 'gain_b'] : []),
+      ...(artboard ? ['artboard_width', 'artboard_height'] : [])
+    ];
+    const rows = toV1(layers, artboard).map(r => [
+      csvText(r.filename), r.shift_x, r.shift_y, r.rotate, r.layer_order,
+      ...(withFlips ? [r.flip_x ? 1 : 0, r.flip_y ? 1 : 0] : []),
+      ...(withCrops ? [r.crop_x, r.crop_y, r.crop_width, r.crop_height] : []),
+      ...(withExposure ? [r.brightness, r.contrast, r.gain_r, r.gain_g, r.gain_b] : []),
+      ...(artboard ? [r.artboard_width, r.artboard_height] : [])
+    ]);
+    content = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
+  }
+  return { content, type: 'text/csv', filename: `stitching_data${suffix}.csv` };
+};
@@ -0,0 +1,145 @@
+import { Layer, ExposureAdjustment } from '../types';
+import { Bounds, getOverlapBounds } from './geometry';
+import { loadImage, drawLayer } from './imageData';
+
+// Per-layer exposure compensation. Every channel goes through the same linear transfer on
+// 0-1 values, out = (in * gain - 0.5) * contrast + 0.5 + brightness, clipped to 0-1. Being
+// linear, it maps 1:1 onto an SVG feComponentTransfer (canvas view), a pixel loop
+// (composite) and a single multiply-add in the generated Python script.
+
+export type Channel = 0 | 1 | 2; // r, g, b
+
+export interface ChannelTransfer {
+  slope: number;
+  intercept: number; // 0-1 units
+}
+
+export interface ExposureMatchResult {
+  layer: Layer; // the matched layer with its new gains
+  gain: [number, number, number];
+  samples: number; // overlap pixels the estimate is based on
+}
+
+export const DEFAULT_EXPOSURE: ExposureAdjustment = { brightness: 0, contrast: 1, gain: [1, 1, 1] };
+
+const MAX_PATCH = 256;
+const MIN_SAMPLES = 64;
+const MIN_GAIN = 0.25; // same range as the panel sliders
+const MAX_GAIN = 4;
+
+export const getExposure = (layer: Layer): ExposureAdjustment => layer.exposure ?? DEFAULT_EXPOSURE;
+
+export const isNeutralExposure = (exposure: ExposureAdjustment | undefined) =>
+  !exposure || (exposure.brightness === 0 && exposure.contrast === 1 && exposure.gain.every(g => g === 1));
+
+// Drops neutral adjustments so untouched layers carry no exposure field
+export const setLayerExposure = (layer: Layer, exposure: ExposureAdjustment): Layer =>
+  isNeutralExposure(exposure) ? { ...layer, exposure: undefined } : { ...layer, exposure };
+
+export const getChannelTransfer = (exposure: ExposureAdjustment, channel: Channel): ChannelTransfer => ({
+  slope: exposure.gain[channel] * exposure.contrast,
+  intercept: 0.5 * (1 - exposure.contrast) + exposure.brightness
+});
+
+export const getExposureFilterId = (layer: Layer) => `exposure-${layer.id}`;
+
+// Applies the adjustment to RGBA pixels in place; alpha is left untouched
+export const applyExposureToPixels = (data: Uint8ClampedArray, exposure: ExposureAdjustment) => {
+  const transfers = ([0, 1, 2] as Channel[]).map(c => getChannelTransfer(exposure, c));
+  const luts = transfers.map(({ slope, intercept }) => {
+    const lut = new Uint8ClampedArray(256);
+    for (let v = 0; v < 256; v++) lut[v] = Math.round(v * slope + intercept * 255);
+    return lut;
+  });
+  for (let p = 0; p < data.length; p += 4) {
+    data[p] = luts[0][data[p]];
+    data[p + 1] = luts[1][data[p + 1]];
+    data[p + 2] = luts[2][data[p + 2]];
+  }
+};
+
+// Image with the layer's exposure baked in, at the natural size so crop rectangles still
+// address the same pixels. Returns the image itself when there is nothing to adjust.
+export const getAdjustedImage = (img: HTMLImageElement, layer: Layer): CanvasImageSource => {
+  if (isNeutralExposure(layer.exposure)) return img;
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  ctx.drawImage(img, 0, 0);
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  applyExposureToPixels(pixels.data, getExposure(layer));
+  ctx.putImageData(pixels, 0, 0);
+  return canvas;
+};
+
+const renderPatch = (img: HTMLImageElement, layer: Layer, region: Bounds, scale: number, w: number, h: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  ctx.scale(scale, scale);
+  ctx.translate(-region.minX, -region.minY);
+  drawLayer(ctx, img, layer);
+  return ctx.getImageData(0, 0, w, h).data;
+};
+
+// Estimates per-channel gains for `moving` so its overlap with `reference` has the same mean
+// colour as the reference shows it (with the reference's own adjustment). The moving layer's
+// brightness and contrast are kept; only its gains change.
+export const matchExposure = async (reference: Layer, moving: Layer): Promise<ExposureMatchResult> => {
+  const region = getOverlapBounds(reference, moving);
+  if (!region) {
+    throw new Error(`${moving.name} does not overlap the reference layer.`);
+  }
+
+  const regionW = region.maxX - region.minX;
+  const regionH = region.maxY - region.minY;
+  const scale = Math.min(1, MAX_PATCH / Math.max(regionW, regionH));
+  const w = Math.max(1, Math.floor(regionW * scale));
+  const h = Math.max(1, Math.floor(regionH * scale));
+
+  const [refImg, movImg] = await Promise.all([loadImage(reference.imageUrl), loadImage(moving.imageUrl)]);
+  const refData = renderPatch(refImg, reference, region, scale, w, h);
+  const movData = renderPatch(movImg, moving, region, scale, w, h);
+
+  // Only pixels fully covered by both layers; the rotated edges are partially transparent
+  const refSum = [0, 0, 0];
+  const movSum = [0, 0, 0];
+  let samples = 0;
+  for (let p = 0; p < refData.length; p += 4) {
+    if (refData[p + 3] < 255 || movData[p + 3] < 255) continue;
+    for (let c = 0; c < 3; c++) {
+      refSum[c] += refData[p + c];
+      movSum[c] += movData[p + c];
+    }
+    samples++;
+  }
+  if (samples < MIN_SAMPLES) {
+    throw new Error(`${moving.name} barely overlaps the reference layer. Place it roughly in position first.`);
+  }
+
+  const refExposure = getExposure(reference);
+  const movExposure = getExposure(moving);
+  const gain = ([0, 1, 2] as Channel[]).map(c => {
+    const t = getChannelTransfer(refExposure, c);
+    const target = (refSum[c] / samples / 255) * t.slope + t.intercept;
+    const mean = movSum[c] / samples / 255;
+    if (mean <= 0 || movExposure.contrast === 0) return 1;
+    // Invert the moving layer's brightness/contrast, then solve mean * gain = wanted input
+    const wanted = (target - 0.5 - movExposure.brightness) / movExposure.contrast + 0.5;
+    return Math.max(MIN_GAIN, Math.min(MAX_GAIN, wanted / mean));
+  }) as [number, number, number];
+
+  return {
+    layer: setLayerExposure(moving, { ...movExposure, gain }),
+    gain,
+    samples
+  };
+};
@@ -0,0 +1,236 @@
+import { GrayImage } from './imageData';
+
+// ORB-style keypoints: FAST-9 corners ranked by Harris response, oriented by intensity
+// centroid, described with 256-bit rotated BRIEF and matched by Hamming distance.
+
+export interface Keypoint {
+  x: number; // analysis pixels
+  y: number;
+  angle: number; // radians
+  response: number;
+}
+
+export interface FeatureSet {
+  keypoints: Keypoint[];
+  descriptors: Uint32Array[]; // 8 words (256 bits) per keypoint
+}
+
+export interface FeatureMatch {
+  a: number; // index into the first feature set
+  b: number;
+  distance: number;
+}
+
+const FAST_THRESHOLD = 20;
+const FAST_ARC = 9;
+const PATCH_RADIUS = 15;
+// Sampling pairs reach PATCH_RADIUS * sqrt(2) once rotated
+const BORDER = 23;
+const DESCRIPTOR_BITS = 256;
+const MAX_HAMMING = 64;
+const RATIO = 0.8;
+
+// Bresenham circle of radius 3, clockwise from 12 o'clock
+const CIRCLE: [number, number][] = [
+  [0, -3], [1, -3], [2, -2], [3, -1], [3, 0], [3, 1], [2, 2], [1, 3],
+  [0, 3], [-1, 3], [-2, 2], [-3, 1], [-3, 0], [-3, -1], [-2, -2], [-1, -3]
+];
+
+// Deterministic BRIEF pattern (mulberry32 + Box-Muller), sigma = patch / 5 as in the BRIEF paper
+const createPattern = () => {
+  let seed = 0x5eed1234;
+  const random = () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const gaussian = () => {
+    const u = Math.max(random(), 1e-12);
+    const v = random();
+    const value = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v) * ((PATCH_RADIUS * 2 + 1) / 5);
+    return Math.max(-PATCH_RADIUS, Math.min(PATCH_RADIUS, Math.round(value)));
+  };
+  const pattern = new Int8Array(DESCRIPTOR_BITS * 4);
+  for (let i = 0; i < pattern.length; i++) pattern[i] = gaussian();
+  return pattern;
+};
+
+let briefPattern: Int8Array | null = null;
+
+// Separable 5-tap box blur; BRIEF tests are too noisy on raw pixels
+const smooth = (img: GrayImage): Float32Array => {
+  const { width, height, data } = img;
+  const tmp = new Float32Array(data.length);
+  const out = new Float32Array(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -2; k <= 2; k++) sum += data[y * width + Math.min(width - 1, Math.max(0, x + k))];
+      tmp[y * width + x] = sum / 5;
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -2; k <= 2; k++) sum += tmp[Math.min(height - 1, Math.max(0, y + k)) * width + x];
+      out[y * width + x] = sum / 5;
+    }
+  }
+  return out;
+};
+
+const isFastCorner = (data: Float32Array, width: number, x: number, y: number) => {
+  const center = data[y * width + x];
+  const hi = center + FAST_THRESHOLD;
+  const lo = center - FAST_THRESHOLD;
+  let brighter = 0;
+  let darker = 0;
+  // Walk the circle twice so arcs that wrap around index 0 are counted
+  for (let i = 0; i < CIRCLE.length * 2; i++) {
+    const [dx, dy] = CIRCLE[i % CIRCLE.length];
+    const v = data[(y + dy) * width + x + dx];
+    if (v > hi) {
+      brighter++;
+      darker = 0;
+    } else if (v < lo) {
+      darker++;
+      brighter = 0;
+    } else {
+      brighter = 0;
+      darker = 0;
+    }
+    if (brighter >= FAST_ARC || darker >= FAST_ARC) return true;
+  }
+  return false;
+};
+
+const harrisResponse = (data: Float32Array, width: number, x: number, y: number) => {
+  let sxx = 0, syy = 0, sxy = 0;
+  for (let dy = -3; dy <= 3; dy++) {
+    for (let dx = -3; dx <= 3; dx++) {
+      const i = (y + dy) * width + x + dx;
+      const gx = data[i + 1] - data[i - 1];
+      const gy = data[i + width] - data[i - width];
+      sxx += gx * gx;
+      syy += gy * gy;
+      sxy += gx * gy;
+    }
+  }
+  return sxx * syy - sxy * sxy - 0.04 * (sxx + syy) * (sxx + syy);
+};
+
+const orientation = (data: Float32Array, width: number, x: number, y: number) => {
+  let m01 = 0, m10 = 0;
+  for (let dy = -PATCH_RADIUS; dy <= PATCH_RADIUS; dy++) {
+    const span = Math.floor(Math.sqrt(PATCH_RADIUS * PATCH_RADIUS - dy * dy));
+    for (let dx = -span; dx <= span; dx++) {
+      const v = data[(y + dy) * width + x + dx];
+      m10 += dx * v;
+      m01 += dy * v;
+    }
+  }
+  return Math.atan2(m01, m10);
+};
+
+export const detectFeatures = (img: GrayImage, maxFeatures = 500): FeatureSet => {
+  const { width, height, data } = img;
+  if (width <= BORDER * 2 || height <= BORDER * 2) return { keypoints: [], descriptors: [] };
+
+  const scores = new Float32Array(width * height);
+  for (let y = BORDER; y < height - BORDER; y++) {
+    for (let x = BORDER; x < width - BORDER; x++) {
+      if (isFastCorner(data, width, x, y)) {
+        scores[y * width + x] = Math.max(1e-6, harrisResponse(data, width, x, y));
+      }
+    }
+  }
+
+  // 3x3 non-maximum suppression
+  const candidates: Keypoint[] = [];
+  for (let y = BORDER; y < height - BORDER; y++) {
+    for (let x = BORDER; x < width - BORDER; x++) {
+      const s = scores[y * width + x];
+      if (s <= 0) continue;
+      let isMax = true;
+      for (let dy = -1; dy <= 1 && isMax; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if ((dx || dy) && scores[(y + dy) * width + x + dx] > s) {
+            isMax = false;
+            break;
+          }
+        }
+      }
+      if (isMax) candidates.push({ x, y, angle: 0, response: s });
+    }
+  }
+  candidates.sort((a, b) => b.response - a.response);
+  const keypoints = candidates.slice(0, maxFeatures);
+
+  const blurred = smooth(img);
+  if (!briefPattern) briefPattern = createPattern();
+  const pattern = briefPattern;
+
+  const descriptors = keypoints.map(kp => {
+    kp.angle = orientation(blurred, width, kp.x, kp.y);
+    const cos = Math.cos(kp.angle);
+    const sin = Math.sin(kp.angle);
+    const desc = new Uint32Array(DESCRIPTOR_BITS / 32);
+    const sample = (px: number, py: number) => {
+      const rx = Math.round(px * cos - py * sin);
+      const ry = Math.round(px * sin + py * cos);
+      return blurred[(kp.y + ry) * width + kp.x + rx];
+    };
+    for (let bit = 0; bit < DESCRIPTOR_BITS; bit++) {
+      const o = bit * 4;
+      if (sample(pattern[o], pattern[o + 1]) < sample(pattern[o + 2], pattern[o + 3])) {
+        desc[bit >> 5] |= 1 << (bit & 31);
+      }
+    }
+    return desc;
+  });
+
+  return { keypoints, descriptors };
+};
+
+const popcount = (v: number) => {
+  v = v - ((v >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+};
+
+const hamming = (a: Uint32Array, b: Uint32Array) => {
+  let d = 0;
+  for (let i = 0; i < a.length; i++) d += popcount(a[i] ^ b[i]);
+  return d;
+};
+
+const bestMatches = (from: Uint32Array[], to: Uint32Array[]) => from.map(desc => {
+  let best = Infinity, second = Infinity, index = -1;
+  to.forEach((other, j) => {
+    const d = hamming(desc, other);
+    if (d < best) {
+      second = best;
+      best = d;
+      index = j;
+    } else if (d < second) {
+      second = d;
+    }
+  });
+  return { index, best, second };
+});
+
+// Mutual nearest neighbours that also pass Lowe's ratio test
+export const matchFeatures = (a: FeatureSet, b: FeatureSet): FeatureMatch[] => {
+  if (a.descriptors.length === 0 || b.descriptors.length === 0) return [];
+  const forward = bestMatches(a.descriptors, b.descriptors);
+  const backward = bestMatches(b.descriptors, a.descriptors);
+  const matches: FeatureMatch[] = [];
+  forward.forEach((m, i) => {
+    if (m.index === -1 || m.best > MAX_HAMMING) return;
+    if (m.second !== Infinity && m.best >= RATIO * m.second) return;
+    if (backward[m.index].index !== i) return;
+    matches.push({ a: i, b: m.index, distance: m.best });
+  });
+  return matches;
+};
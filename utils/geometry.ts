@@ -0,0 +1,215 @@
+import { Layer, AffineMatrix, Coordinates, CropRect } from '../types';
+
+// Shared transform math. Everything here must agree with the canvas rendering
+// and with how cv2.warpAffine pipelines consume the exported shifts.
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export const calculateRotatedDimensions = (width: number, height: number, rotation: number, scale: number) => {
+  // Normalize rotation to 0-360 positive range for cleaner logic
+  let r = rotation % 360;
+  if (r < 0) r += 360;
+
+  const s = isNaN(scale) ? 1 : scale;
+  const w = isNaN(width) ? 0 : width;
+  const h = isNaN(height) ? 0 : height;
+
+  const scaledW = w * s;
+  const scaledH = h * s;
+
+  // Snap to exact values for orthogonal angles to prevent float distortion
+  // 0, 180, 360: Width/Height remain (just inverted if 180, but bbox size is same)
+  if (Math.abs(r - 0) < 0.05 || Math.abs(r - 180) < 0.05 || Math.abs(r - 360) < 0.05) {
+      return { width: scaledW, height: scaledH };
+  }
+  // 90, 270: Width/Height swap exactly
+  if (Math.abs(r - 90) < 0.05 || Math.abs(r - 270) < 0.05) {
+      return { width: scaledH, height: scaledW };
+  }
+
+  const angleRad = Math.abs((rotation * Math.PI) / 180);
+  const cos = Math.abs(Math.cos(angleRad));
+  const sin = Math.abs(Math.sin(angleRad));
+  
+  // Matches Python: new_w = (h * sin) + (w * cos)
+  const newW = (scaledH * sin) + (scaledW * cos);
+  const newH = (scaledH * cos) + (scaledW * sin);
+
+  return { width: newW, height: newH };
+};
+
+// Part of the source image that is shown; the whole image when the layer is not cropped
+export const getCropRect = (layer: Layer): CropRect =>
+  layer.crop || { x: 0, y: 0, width: layer.width, height: layer.height };
+
+// Rotated bounding box of the layer as displayed (cropped size)
+export const getLayerDimensions = (layer: Layer) => {
+  const crop = getCropRect(layer);
+  return calculateRotatedDimensions(crop.width, crop.height, layer.rotation, layer.scale);
+};
+
+// Union of the rotated bounding boxes, or null when there is nothing to measure
+export const getLayersBounds = (layers: Layer[]): Bounds | null => {
+  if (layers.length === 0) return null;
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+
+  layers.forEach(l => {
+    const dims = getLayerDimensions(l);
+    minX = Math.min(minX, l.x);
+    minY = Math.min(minY, l.y);
+    maxX = Math.max(maxX, l.x + dims.width);
+    maxY = Math.max(maxY, l.y + dims.height);
+  });
+
+  return { minX, minY, maxX, maxY };
+};
+
+// Intersection of two layers' rotated bounding boxes, or null when they do not overlap
+export const getOverlapBounds = (a: Layer, b: Layer): Bounds | null => {
+  const boundsA = getLayersBounds([a]);
+  const boundsB = getLayersBounds([b]);
+  if (!boundsA || !boundsB) return null;
+  const overlap = {
+    minX: Math.max(boundsA.minX, boundsB.minX),
+    minY: Math.max(boundsA.minY, boundsB.minY),
+    maxX: Math.min(boundsA.maxX, boundsB.maxX),
+    maxY: Math.min(boundsA.maxY, boundsB.maxY)
+  };
+  return overlap.maxX > overlap.minX && overlap.maxY > overlap.minY ? overlap : null;
+};
+
+// Forward map from source image pixels to the output canvas whose (0, 0) sits at `origin`.
+// The image is mirrored (flipX/flipY), scaled and rotated (clockwise, y-down) about the
+// centre of its crop rectangle, and that centre lands on the centre of the rotated bounding
+// box. Equivalent to slicing the crop, cv2.flip + imutils.rotate_bound, then a translation
+// to (shift_x, shift_y). Source coordinates stay those of the uncropped image.
+export const getAffineMatrix = (layer: Layer, origin: Coordinates = { x: 0, y: 0 }): AffineMatrix => {
+  const dims = getLayerDimensions(layer);
+  const crop = getCropRect(layer);
+  const rad = (layer.rotation * Math.PI) / 180;
+  const a = layer.scale * Math.cos(rad);
+  const b = layer.scale * Math.sin(rad);
+  const fx = layer.flipX ? -1 : 1;
+  const fy = layer.flipY ? -1 : 1;
+
+  const srcCx = crop.x + crop.width / 2;
+  const srcCy = crop.y + crop.height / 2;
+  const dstCx = layer.x + dims.width / 2 - origin.x;
+  const dstCy = layer.y + dims.height / 2 - origin.y;
+
+  return [
+    [a * fx, -b * fy, dstCx - (a * fx * srcCx - b * fy * srcCy)],
+    [b * fx, a * fy, dstCy - (b * fx * srcCx + a * fy * srcCy)]
+  ];
+};
+
+export const getLayerCenter = (layer: Layer): Coordinates => {
+  const dims = getLayerDimensions(layer);
+  return { x: layer.x + dims.width / 2, y: layer.y + dims.height / 2 };
+};
+
+// Wraps an angle into (-180, 180] so values stay within the rotation slider's range
+export const normalizeAngle = (degrees: number) => {
+  let a = degrees % 360;
+  if (a > 180) a -= 360;
+  if (a <= -180) a += 360;
+  return a;
+};
+
+// Applies property changes to a layer. Rotation and scale change the size of the
+// bounding box, so the top-left (x, y) is moved to keep the layer's centre in place.
+export const applyLayerChanges = (layer: Layer, changes: Partial<Layer>): Layer => {
+  if (changes.rotation === undefined && changes.scale === undefined) {
+    return { ...layer, ...changes };
+  }
+  const center = getLayerCenter(layer);
+  const next = { ...layer, ...changes };
+  const newDims = getLayerDimensions(next);
+  return { ...next, x: center.x - newDims.width / 2, y: center.y - newDims.height / 2 };
+};
+
+// Changes the crop without moving the image: every source pixel keeps its canvas position,
+// only the bounding box (x, y and size) follows the new crop
+export const setLayerCrop = (layer: Layer, crop: CropRect | undefined): Layer => {
+  const next = { ...layer, crop };
+  const rect = getCropRect(next);
+  const anchor = sourceToCanvas(layer, { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 });
+  const dims = getLayerDimensions(next);
+  return { ...next, x: anchor.x - dims.width / 2, y: anchor.y - dims.height / 2 };
+};
+
+// Crop from two source-space corners, snapped to whole pixels inside the image.
+// Returns undefined when the rectangle covers the whole image.
+export const normalizeCrop = (layer: Layer, a: Coordinates, b: Coordinates): CropRect | undefined => {
+  const clampX = (v: number) => Math.max(0, Math.min(layer.width, Math.round(v)));
+  const clampY = (v: number) => Math.max(0, Math.min(layer.height, Math.round(v)));
+  const x0 = Math.min(layer.width - 1, clampX(Math.min(a.x, b.x))), x1 = clampX(Math.max(a.x, b.x));
+  const y0 = Math.min(layer.height - 1, clampY(Math.min(a.y, b.y))), y1 = clampY(Math.max(a.y, b.y));
+  const crop = { x: x0, y: y0, width: Math.max(1, x1 - x0), height: Math.max(1, y1 - y0) };
+  const isFull = crop.x === 0 && crop.y === 0 && crop.width === layer.width && crop.height === layer.height;
+  return isFull ? undefined : crop;
+};
+
+// Similarity transform in canvas space: p' = scale * R(rotation) * p + (tx, ty).
+// Rotation is in degrees, clockwise on screen (y-down), same sense as Layer.rotation.
+export interface Similarity {
+  scale: number;
+  rotation: number;
+  tx: number;
+  ty: number;
+}
+
+export const applySimilarity = (t: Similarity, p: Coordinates): Coordinates => {
+  const rad = (t.rotation * Math.PI) / 180;
+  const a = t.scale * Math.cos(rad);
+  const b = t.scale * Math.sin(rad);
+  return { x: a * p.x - b * p.y + t.tx, y: b * p.x + a * p.y + t.ty };
+};
+
+// Rotation (degrees, clockwise) and uniform scale about a fixed canvas point
+export const similarityAbout = (pivot: Coordinates, rotation: number, scale: number): Similarity => {
+  const rad = (rotation * Math.PI) / 180;
+  const a = scale * Math.cos(rad);
+  const b = scale * Math.sin(rad);
+  return { scale, rotation, tx: pivot.x - (a * pivot.x - b * pivot.y), ty: pivot.y - (b * pivot.x + a * pivot.y) };
+};
+
+// Moves a layer rigidly (plus uniform scale) by a canvas-space similarity
+export const transformLayer = (layer: Layer, t: Similarity): Layer => {
+  const center = getLayerCenter(layer);
+  const target = applySimilarity(t, center);
+  const turned = applyLayerChanges(layer, {
+    rotation: normalizeAngle(layer.rotation + t.rotation),
+    scale: layer.scale * t.scale
+  });
+  return { ...turned, x: turned.x + target.x - center.x, y: turned.y + target.y - center.y };
+};
+
+// Whether a source pixel position lies inside the layer's (cropped) visible image
+export const isInsideCrop = (layer: Layer, source: Coordinates) => {
+  const crop = getCropRect(layer);
+  return source.x >= crop.x && source.y >= crop.y && source.x < crop.x + crop.width && source.y < crop.y + crop.height;
+};
+
+// Source image pixel -> canvas coordinates
+export const sourceToCanvas = (layer: Layer, p: Coordinates): Coordinates => {
+  const m = getAffineMatrix(layer);
+  return { x: m[0][0] * p.x + m[0][1] * p.y + m[0][2], y: m[1][0] * p.x + m[1][1] * p.y + m[1][2] };
+};
+
+// Canvas coordinates -> source image pixel (inverse of sourceToCanvas)
+export const canvasToSource = (layer: Layer, p: Coordinates): Coordinates => {
+  const m = getAffineMatrix(layer);
+  const det = m[0][0] * m[1][1] - m[0][1] * m[1][0];
+  const dx = p.x - m[0][2];
+  const dy = p.y - m[1][2];
+  return {
+    x: (m[1][1] * dx - m[0][1] * dy) / det,
+    y: (-m[1][0] * dx + m[0][0] * dy) / det
+  };
+};
@@ -0,0 +1,126 @@
+import { Layer } from '../types';
+import { getLayerDimensions, getLayersBounds } from './geometry';
+
+// Places tiles of a scan grid on a regular lattice as a starting point for fine alignment.
+// Cells are sized by the largest tile; neighbours overlap by a percentage of that size.
+
+export type ScanOrder = 'row-major' | 'column-major' | 'snake-rows' | 'snake-columns';
+export type StartCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface GridOptions {
+  rows: number;
+  columns: number;
+  overlap: number; // percent of the cell size, 0-90
+  order: ScanOrder;
+  corner: StartCorner;
+  inferFromFilenames: boolean;
+}
+
+export interface GridCell {
+  row: number; // 0-based, top to bottom
+  column: number; // 0-based, left to right
+}
+
+export interface GridLayoutResult {
+  layers: Layer[];
+  inferred: number; // layers placed from their filename
+  unplaced: number; // layers that did not fit into the grid
+}
+
+// Row/column pairs such as tile_r03_c07, row3-col7 or img_y03_x07 (y is the row)
+const ROW_COL_PATTERN = /(?:^|[^a-z])(?:r|row)[_-]?(\d+)[^a-z0-9]*(?:c|col|column)[_-]?(\d+)/i;
+const Y_X_PATTERN = /(?:^|[^a-z])y[_-]?(\d+)[^a-z0-9]*x[_-]?(\d+)/i;
+const X_Y_PATTERN = /(?:^|[^a-z])x[_-]?(\d+)[^a-z0-9]*y[_-]?(\d+)/i;
+
+export const parseGridIndex = (filename: string): GridCell | null => {
+  let match = filename.match(ROW_COL_PATTERN) || filename.match(Y_X_PATTERN);
+  if (match) return { row: parseInt(match[1], 10), column: parseInt(match[2], 10) };
+  match = filename.match(X_Y_PATTERN);
+  if (match) return { row: parseInt(match[2], 10), column: parseInt(match[1], 10) };
+  return null;
+};
+
+// Grid indices from filenames, shifted so the smallest row and column become 0
+// (names may be 0- or 1-based)
+export const inferGridCells = (layers: Layer[]): Map<string, GridCell> => {
+  const parsed = layers
+    .map(layer => ({ id: layer.id, cell: parseGridIndex(layer.name) }))
+    .filter((p): p is { id: string; cell: GridCell } => p.cell !== null);
+  const cells = new Map<string, GridCell>();
+  if (parsed.length === 0) return cells;
+  const minRow = Math.min(...parsed.map(p => p.cell.row));
+  const minColumn = Math.min(...parsed.map(p => p.cell.column));
+  parsed.forEach(p => cells.set(p.id, { row: p.cell.row - minRow, column: p.cell.column - minColumn }));
+  return cells;
+};
+
+// Cell of the i-th tile in capture order
+export const cellForIndex = (index: number, options: Pick<GridOptions, 'rows' | 'columns' | 'order' | 'corner'>): GridCell => {
+  const { rows, columns, order, corner } = options;
+  const byRows = order === 'row-major' || order === 'snake-rows';
+  const lineLength = byRows ? columns : rows;
+  const line = Math.floor(index / lineLength);
+  let offset = index % lineLength;
+  // Serpentine scans reverse direction on every other line
+  if ((order === 'snake-rows' || order === 'snake-columns') && line % 2 === 1) {
+    offset = lineLength - 1 - offset;
+  }
+
+  let row = byRows ? line : offset;
+  let column = byRows ? offset : line;
+  if (corner === 'top-right' || corner === 'bottom-right') column = columns - 1 - column;
+  if (corner === 'bottom-left' || corner === 'bottom-right') row = rows - 1 - row;
+  return { row, column };
+};
+
+// Square-ish default for n tiles
+export const suggestGridSize = (count: number) => {
+  const columns = Math.max(1, Math.ceil(Math.sqrt(count)));
+  return { rows: Math.max(1, Math.ceil(count / columns)), columns };
+};
+
+// Arranges `selected` (in the order given) and returns the full layer list. The grid starts
+// at the selection's current top-left so it stays where the tiles were.
+export const arrangeGrid = (layers: Layer[], selected: Layer[], options: GridOptions): GridLayoutResult => {
+  const bounds = getLayersBounds(selected);
+  if (!bounds) return { layers, inferred: 0, unplaced: 0 };
+
+  const inferredCells = options.inferFromFilenames ? inferGridCells(selected) : new Map<string, GridCell>();
+  const rows = Math.max(options.rows, ...Array.from(inferredCells.values(), c => c.row + 1));
+  const columns = Math.max(options.columns, ...Array.from(inferredCells.values(), c => c.column + 1));
+
+  let cellWidth = 0, cellHeight = 0;
+  selected.forEach(l => {
+    const dims = getLayerDimensions(l);
+    cellWidth = Math.max(cellWidth, dims.width);
+    cellHeight = Math.max(cellHeight, dims.height);
+  });
+  const keep = 1 - Math.max(0, Math.min(90, options.overlap)) / 100;
+  const stepX = cellWidth * keep;
+  const stepY = cellHeight * keep;
+
+  // Tiles without a filename index fill the remaining cells in scan order
+  const taken = new Set(Array.from(inferredCells.values(), c => `${c.row},${c.column}`));
+  const assigned = new Map<string, GridCell>(inferredCells);
+  let next = 0;
+  selected.forEach(layer => {
+    if (assigned.has(layer.id)) return;
+    while (next < rows * columns) {
+      const cell = cellForIndex(next++, { rows, columns, order: options.order, corner: options.corner });
+      const key = `${cell.row},${cell.column}`;
+      if (!taken.has(key)) {
+        taken.add(key);
+        assigned.set(layer.id, cell);
+        return;
+      }
+    }
+  });
+
+  const updated = layers.map(layer => {
+    const cell = assigned.get(layer.id);
+    if (!cell) return layer;
+    return { ...layer, x: bounds.minX + cell.column * stepX, y: bounds.minY + cell.row * stepY };
+  });
+
+  return { layers: updated, inferred: inferredCells.size, unplaced: selected.length - assigned.size };
+};
@@ -0,0 +1,62 @@
+import { Layer } from '../types';
+import { getAffineMatrix, getCropRect } from './geometry';
+
+// Pixel access for analysis (alignment, exposure matching). Images are decoded from the
+// layer's blob URL, limited to the layer's crop and optionally downsampled so analysis
+// stays interactive. Pixel (0, 0) of the result is the crop's top-left corner.
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Float32Array; // luma, 0-255
+  scale: number; // analysis pixels per source pixel
+}
+
+export const loadImage = (url: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Failed to load layer image'));
+  img.src = url;
+});
+
+export const getImageData = async (layer: Layer, scale = 1): Promise<ImageData> => {
+  const img = await loadImage(layer.imageUrl);
+  const crop = getCropRect(layer);
+  const width = Math.max(1, Math.round(crop.width * scale));
+  const height = Math.max(1, Math.round(crop.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+export const toGray = (image: ImageData, scale: number): GrayImage => {
+  const { width, height, data } = image;
+  const gray = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    // Transparent pixels carry no structure; treat them as black
+    const a = data[p + 3] / 255;
+    gray[i] = (0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2]) * a;
+  }
+  return { width, height, data: gray, scale };
+};
+
+export const getGrayImage = async (layer: Layer, scale = 1): Promise<GrayImage> =>
+  toGray(await getImageData(layer, scale), scale);
+
+// Draws a layer with its canvas transform (same matrix as the v2 export), on top of
+// whatever transform the context already has
+export const drawLayer = (ctx: CanvasRenderingContext2D, img: CanvasImageSource, layer: Layer) => {
+  const m = getAffineMatrix(layer);
+  const crop = getCropRect(layer);
+  ctx.save();
+  ctx.transform(m[0][0], m[1][0], m[0][1], m[1][1], m[0][2], m[1][2]);
+  ctx.drawImage(img, crop.x, crop.y, crop.width, crop.height, crop.x, crop.y, crop.width, crop.height);
+  ctx.restore();
+};
@@ -0,0 +1,330 @@
+import { Layer, ExportData, CropRect, ExposureAdjustment } from '../types';
+import { setLayerExposure } from './exposure';
+
+// Reads JSON/CSV layouts written by the export (or by external pipelines using the same schema)
+// and maps them back onto the loaded layers by filename. Accepts both v1 and v2 exports;
+// the extra v2 fields (scale, opacity, visible, flip_x, flip_y, crop box, exposure) are applied when present.
+
+export type LayoutFormat = 'json' | 'csv';
+
+const REQUIRED_FIELDS = ['filename', 'shift_x', 'shift_y', 'rotate'] as const;
+
+export interface LayoutRecord extends Omit<ExportData, 'layer_order'> {
+  layer_order?: number;
+  scale?: number;
+  opacity?: number;
+  visible?: boolean;
+  flip_x?: boolean;
+  flip_y?: boolean;
+  crop?: CropRect;
+  exposure?: ExposureAdjustment;
+  row: number; // 1-based record number in the source, used in messages
+}
+
+export interface LayoutImportReport {
+  matched: string[];
+  unmatchedRecords: string[]; // filenames in the file with no loaded layer
+  unmatchedLayers: string[]; // loaded layers the file does not mention
+  duplicates: string[];
+  errors: string[]; // schema problems and malformed rows (these records are skipped)
+}
+
+export interface LayoutImportResult {
+  layers: Layer[];
+  report: LayoutImportReport;
+}
+
+export const detectLayoutFormat = (filename: string, text: string): LayoutFormat => {
+  const lower = filename.toLowerCase();
+  if (lower.endsWith('.json')) return 'json';
+  if (lower.endsWith('.csv')) return 'csv';
+  const first = text.trimStart()[0];
+  return first === '[' || first === '{' ? 'json' : 'csv';
+};
+
+// RFC 4180 style: quoted fields may contain commas, newlines and doubled quotes
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Drop blank lines
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const toNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+};
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+
+const toBoolean = (value: unknown): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  const text = String(value).trim().toLowerCase();
+  if (text === '1' || text === 'true') return true;
+  if (text === '0' || text === 'false') return false;
+  return null;
+};
+
+const validateRecord = (raw: Record<string, unknown>, row: number, errors: string[]): LayoutRecord | null => {
+  const filename = typeof raw.filename === 'string' ? raw.filename.trim() : '';
+  if (!filename) {
+    errors.push(`Row ${row}: missing filename`);
+    return null;
+  }
+
+  const values = {
+    shift_x: toNumber(raw.shift_x),
+    shift_y: toNumber(raw.shift_y),
+    rotate: toNumber(raw.rotate)
+  };
+  const invalid = (Object.keys(values) as (keyof typeof values)[]).filter(k => !Number.isFinite(values[k]));
+  if (invalid.length > 0) {
+    errors.push(`Row ${row} (${filename}): ${invalid.join(', ')} ${invalid.length === 1 ? 'is' : 'are'} not a number`);
+    return null;
+  }
+
+  const record: LayoutRecord = { filename, ...values, row };
+
+  if (!isBlank(raw.layer_order)) {
+    const layerOrder = toNumber(raw.layer_order);
+    if (!Number.isInteger(layerOrder)) {
+      errors.push(`Row ${row} (${filename}): layer_order must be an integer`);
+      return null;
+    }
+    record.layer_order = layerOrder;
+  }
+  if (!isBlank(raw.scale)) {
+    const scale = toNumber(raw.scale);
+    if (!Number.isFinite(scale) || scale <= 0) {
+      errors.push(`Row ${row} (${filename}): scale must be a positive number`);
+      return null;
+    }
+    record.scale = scale;
+  }
+  if (!isBlank(raw.opacity)) {
+    const opacity = toNumber(raw.opacity);
+    if (!Number.isFinite(opacity) || opacity < 0 || opacity > 1) {
+      errors.push(`Row ${row} (${filename}): opacity must be between 0 and 1`);
+      return null;
+    }
+    record.opacity = opacity;
+  }
+  if (!isBlank(raw.visible)) {
+    const visible = toBoolean(raw.visible);
+    if (visible === null) {
+      errors.push(`Row ${row} (${filename}): visible must be true/false or 1/0`);
+      return null;
+    }
+    record.visible = visible;
+  }
+  for (const key of ['flip_x', 'flip_y'] as const) {
+    if (isBlank(raw[key])) continue;
+    const flip = toBoolean(raw[key]);
+    if (flip === null) {
+      errors.push(`Row ${row} (${filename}): ${key} must be true/false or 1/0`);
+      return null;
+    }
+    record[key] = flip;
+  }
+  const cropFields = [raw.crop_x, raw.crop_y, raw.crop_width, raw.crop_height];
+  if (cropFields.some(v => !isBlank(v))) {
+    const [x, y, width, height] = cropFields.map(toNumber);
+    if (![x, y, width, height].every(Number.isInteger) || x < 0 || y < 0 || width < 1 || height < 1) {
+      errors.push(`Row ${row} (${filename}): crop_x, crop_y, crop_width and crop_height must be whole pixels with a positive size`);
+      return null;
+    }
+    record.crop = { x, y, width, height };
+  }
+  const exposureFields = [raw.brightness, raw.contrast, raw.gain_r, raw.gain_g, raw.gain_b];
+  if (exposureFields.some(v => !isBlank(v))) {
+    // Fields left out stay neutral
+    const [brightness, contrast, r, g, b] = exposureFields.map((v, i) => isBlank(v) ? (i === 0 ? 0 : 1) : toNumber(v));
+    if (![brightness, contrast, r, g, b].every(Number.isFinite) || contrast < 0 || r < 0 || g < 0 || b < 0) {
+      errors.push(`Row ${row} (${filename}): brightness must be a number; contrast, gain_r, gain_g and gain_b must not be negative`);
+      return null;
+    }
+    record.exposure = { brightness, contrast, gain: [r, g, b] };
+  }
+
+  return record;
+};
+
+export const parseLayout = (text: string, format: LayoutFormat): { records: LayoutRecord[]; errors: string[] } => {
+  const errors: string[] = [];
+  const records: LayoutRecord[] = [];
+
+  if (format === 'json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (err) {
+      return { records, errors: [`Invalid JSON: ${err instanceof Error ? err.message : err}`] };
+    }
+    // v1 is a bare array; v2 wraps the records in a document with a `layers` array
+    const items = Array.isArray(parsed)
+      ? parsed
+      : (typeof parsed === 'object' && parsed !== null && Array.isArray((parsed as { layers?: unknown }).layers))
+        ? (parsed as { layers: unknown[] }).layers
+        : null;
+    if (!items) {
+      return { records, errors: ['Expected a JSON array of layer records or a v2 document with a "layers" array'] };
+    }
+    const version = (parsed as { version?: unknown }).version;
+    if (!Array.isArray(parsed) && version !== undefined && version !== 2) {
+      return { records, errors: [`Unsupported layout version: ${String(version)}`] };
+    }
+    items.forEach((item, index) => {
+      if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+        errors.push(`Row ${index + 1}: expected an object`);
+        return;
+      }
+      const record = validateRecord(item as Record<string, unknown>, index + 1, errors);
+      if (record) records.push(record);
+    });
+    return { records, errors };
+  }
+
+  const rows = parseCsv(text);
+  if (rows.length === 0) {
+    return { records, errors: ['CSV file is empty'] };
+  }
+  const headers = rows[0].map(h => h.trim().toLowerCase());
+  const missing = REQUIRED_FIELDS.filter(f => !headers.includes(f));
+  if (missing.length > 0) {
+    return { records, errors: [`CSV header is missing column${missing.length === 1 ? '' : 's'}: ${missing.join(', ')}`] };
+  }
+
+  rows.slice(1).forEach((cells, index) => {
+    const row = index + 1;
+    if (cells.length !== headers.length) {
+      errors.push(`Row ${row}: expected ${headers.length} columns, found ${cells.length}`);
+      return;
+    }
+    const raw: Record<string, unknown> = {};
+    headers.forEach((h, i) => { raw[h] = cells[i]; });
+    const record = validateRecord(raw, row, errors);
+    if (record) records.push(record);
+  });
+
+  return { records, errors };
+};
+
+// Crops are clipped to the image; one covering the whole image means "uncropped"
+const fitCrop = (layer: Layer, crop: CropRect): CropRect | undefined => {
+  const x = Math.min(crop.x, layer.width - 1);
+  const y = Math.min(crop.y, layer.height - 1);
+  const fitted = { x, y, width: Math.min(crop.width, layer.width - x), height: Math.min(crop.height, layer.height - y) };
+  return fitted.x === 0 && fitted.y === 0 && fitted.width === layer.width && fitted.height === layer.height ? undefined : fitted;
+};
+
+export const applyLayout = (layers: Layer[], records: LayoutRecord[], errors: string[] = []): LayoutImportResult => {
+  const report: LayoutImportReport = {
+    matched: [],
+    unmatchedRecords: [],
+    unmatchedLayers: [],
+    duplicates: [],
+    errors
+  };
+
+  // Same filename may appear more than once on either side; pair them up in order
+  const layersByName = new Map<string, number[]>();
+  layers.forEach((l, index) => {
+    const list = layersByName.get(l.name) || [];
+    list.push(index);
+    layersByName.set(l.name, list);
+  });
+  layersByName.forEach((indices, name) => {
+    if (indices.length > 1) report.duplicates.push(`${name} is loaded ${indices.length} times`);
+  });
+
+  const recordCounts = new Map<string, number>();
+  records.forEach(r => recordCounts.set(r.filename, (recordCounts.get(r.filename) || 0) + 1));
+  recordCounts.forEach((count, name) => {
+    if (count > 1) report.duplicates.push(`${name} appears ${count} times in the layout`);
+  });
+
+  const assignments = new Map<number, LayoutRecord>();
+  const used = new Map<string, number>();
+  records.forEach(record => {
+    const candidates = layersByName.get(record.filename) || [];
+    const taken = used.get(record.filename) || 0;
+    if (taken >= candidates.length) {
+      report.unmatchedRecords.push(record.filename);
+      return;
+    }
+    used.set(record.filename, taken + 1);
+    assignments.set(candidates[taken], record);
+    report.matched.push(record.filename);
+  });
+
+  layers.forEach((l, index) => {
+    if (!assignments.has(index)) report.unmatchedLayers.push(l.name);
+  });
+
+  const updated = layers.map((l, index) => {
+    const record = assignments.get(index);
+    if (!record) return l;
+    const placed: Layer = {
+      ...l,
+      x: record.shift_x,
+      y: record.shift_y,
+      rotation: record.rotate,
+      ...(record.scale !== undefined && { scale: record.scale }),
+      ...(record.opacity !== undefined && { opacity: record.opacity }),
+      ...(record.visible !== undefined && { visible: record.visible }),
+      ...(record.flip_x !== undefined && { flipX: record.flip_x }),
+      ...(record.flip_y !== undefined && { flipY: record.flip_y }),
+      ...(record.crop && { crop: fitCrop(l, record.crop) })
+    };
+    return record.exposure ? setLayerExposure(placed, record.exposure) : placed;
+  });
+
+  // Matched layers keep the stack slots they already occupy but are re-sorted among
+  // themselves by layer_order; unmatched layers do not move
+  const slots = Array.from(assignments.keys()).sort((a, b) => a - b);
+  const ordered = [...slots].sort((a, b) => {
+    const orderA = assignments.get(a)!.layer_order ?? Infinity;
+    const orderB = assignments.get(b)!.layer_order ?? Infinity;
+    return orderA === orderB ? a - b : orderA - orderB;
+  });
+  const result = [...updated];
+  slots.forEach((slot, i) => {
+    result[slot] = updated[ordered[i]];
+  });
+
+  return { layers: result, report };
+};
@@ -0,0 +1,83 @@
+import { Calibration, Coordinates } from '../types';
+
+// On-canvas measurements in canvas pixels. A distance has two points; an angle has three,
+// the middle one being the vertex. Angles follow the canvas convention (y points down, so
+// positive is clockwise), the same as layer rotation.
+
+export type MeasureMode = 'distance' | 'angle';
+
+export interface Measurement {
+  id: string;
+  mode: MeasureMode;
+  points: Coordinates[];
+}
+
+export interface DistanceResult {
+  dx: number;
+  dy: number;
+  distance: number;
+  angle: number; // line angle to the horizontal in degrees, (-90, 90]
+}
+
+export const MEASURE_POINT_COUNT: Record<MeasureMode, number> = { distance: 2, angle: 3 };
+
+export const measureDistance = (a: Coordinates, b: Coordinates): DistanceResult => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  // A line has no direction, so B -> A and A -> B give the same angle
+  let angle = Math.atan2(dy, dx) * 180 / Math.PI;
+  if (angle > 90) angle -= 180;
+  if (angle <= -90) angle += 180;
+  return { dx, dy, distance: Math.hypot(dx, dy), angle };
+};
+
+// Angle at `vertex` between the rays to `a` and `b`, 0-180 degrees
+export const measureAngle = (a: Coordinates, vertex: Coordinates, b: Coordinates) => {
+  const ua = Math.atan2(a.y - vertex.y, a.x - vertex.x);
+  const ub = Math.atan2(b.y - vertex.y, b.x - vertex.x);
+  const diff = Math.abs(ua - ub) * 180 / Math.PI;
+  return diff > 180 ? 360 - diff : diff;
+};
+
+// Rotation in degrees that turns the line a-b onto the nearer of the two axes, so a
+// feature that is tilted by up to 45° becomes horizontal or vertical
+export const getStraightenRotation = (a: Coordinates, b: Coordinates) => {
+  const { angle } = measureDistance(a, b);
+  const tilt = angle > 45 ? angle - 90 : angle <= -45 ? angle + 90 : angle;
+  return -tilt;
+};
+
+export const isCalibrated = (calibration: Calibration | null): calibration is Calibration =>
+  !!calibration && calibration.unitsPerPixel > 0;
+
+// Pixel size that makes `pixels` measure `length` units
+export const calibrateFromDistance = (pixels: number, length: number, unit: string): Calibration | null =>
+  pixels > 0 && length > 0 ? { unitsPerPixel: length / pixels, unit: unit.trim() || 'units' } : null;
+
+const formatNumber = (value: number) => {
+  const magnitude = Math.abs(value);
+  return value.toFixed(magnitude >= 100 ? 1 : magnitude >= 1 ? 2 : 3);
+};
+
+export const formatLength = (pixels: number, calibration: Calibration | null) =>
+  isCalibrated(calibration)
+    ? `${formatNumber(pixels * calibration.unitsPerPixel)} ${calibration.unit}`
+    : `${formatNumber(pixels)} px`;
+
+export const formatAngle = (degrees: number) => `${degrees.toFixed(2)}°`;
+
+// Short summary for the overlay label and the measurements list
+export const describeMeasurement = (measurement: Measurement, calibration: Calibration | null) => {
+  const [a, b, c] = measurement.points;
+  if (measurement.mode === 'angle') {
+    return formatAngle(measureAngle(a, b, c));
+  }
+  const { distance, angle } = measureDistance(a, b);
+  return `${formatLength(distance, calibration)} at ${formatAngle(angle)}`;
+};
+
+// Per-axis offset from the first to the second point, i.e. how far to nudge a layer
+export const describeOffset = (measurement: Measurement, calibration: Calibration | null) => {
+  const { dx, dy } = measureDistance(measurement.points[0], measurement.points[1]);
+  return `Δx ${formatLength(dx, calibration)}, Δy ${formatLength(dy, calibration)}`;
+};
@@ -0,0 +1,206 @@
+import { Layer } from '../types';
+import { Bounds, getOverlapBounds, applyLayerChanges, normalizeAngle } from './geometry';
+import { loadImage, drawLayer } from './imageData';
+import { fft2d, nextPowerOfTwo } from './fft';
+
+// FFT phase correlation on the overlap of two layers. Both layers are rendered into the
+// same canvas-space window, so only the residual misalignment is measured.
+// Rotation (optional) uses Fourier-Mellin: the magnitude spectrum is translation invariant,
+// and in log-polar coordinates a rotation becomes a shift along the angle axis.
+
+export interface PhaseAlignResult {
+  layer: Layer; // the moving layer with the estimate applied
+  dx: number; // applied canvas-space offset
+  dy: number;
+  rotation: number; // applied rotation change in degrees
+  peak: number; // translation correlation peak, 0-1
+  rotationPeak?: number;
+}
+
+const MAX_PATCH = 512;
+const MIN_OVERLAP = 16; // canvas pixels per side
+
+interface Peak {
+  x: number;
+  y: number;
+  value: number;
+}
+
+// Normalized cross-power spectrum of b against a; the peak sits at the shift d with b(x) = a(x - d)
+const crossPowerPeak = (a: Float64Array, b: Float64Array, n: number): Peak => {
+  const aRe = Float64Array.from(a), aIm = new Float64Array(a.length);
+  const bRe = Float64Array.from(b), bIm = new Float64Array(b.length);
+  fft2d(aRe, aIm, n);
+  fft2d(bRe, bIm, n);
+
+  const re = new Float64Array(a.length);
+  const im = new Float64Array(a.length);
+  for (let i = 0; i < a.length; i++) {
+    const cr = bRe[i] * aRe[i] + bIm[i] * aIm[i];
+    const ci = bIm[i] * aRe[i] - bRe[i] * aIm[i];
+    const mag = Math.hypot(cr, ci) || 1;
+    re[i] = cr / mag;
+    im[i] = ci / mag;
+  }
+  fft2d(re, im, n, true);
+
+  let best = 0;
+  for (let i = 1; i < re.length; i++) {
+    if (re[i] > re[best]) best = i;
+  }
+  const px = best % n;
+  const py = Math.floor(best / n);
+  const at = (x: number, y: number) => re[((y + n) % n) * n + ((x + n) % n)];
+
+  // Parabolic sub-pixel refinement along each axis
+  const refine = (l: number, c: number, r: number) => {
+    const denom = l - 2 * c + r;
+    return Math.abs(denom) < 1e-12 ? 0 : Math.max(-0.5, Math.min(0.5, (l - r) / (2 * denom)));
+  };
+  const c = re[best];
+  const sx = px + refine(at(px - 1, py), c, at(px + 1, py));
+  const sy = py + refine(at(px, py - 1), c, at(px, py + 1));
+
+  // Shifts beyond half the window wrap around to negative values
+  return {
+    x: sx > n / 2 ? sx - n : sx,
+    y: sy > n / 2 ? sy - n : sy,
+    value: c
+  };
+};
+
+// Removes the mean and applies a Hann window over the w x h content area (zero padding elsewhere)
+const preparePatch = (data: Float64Array, n: number, w: number, h: number) => {
+  let mean = 0;
+  for (let y = 0; y < h; y++) for (let x = 0; x < w; x++) mean += data[y * n + x];
+  mean /= w * h;
+
+  const out = new Float64Array(n * n);
+  for (let y = 0; y < h; y++) {
+    const wy = 0.5 - 0.5 * Math.cos((2 * Math.PI * y) / Math.max(1, h - 1));
+    for (let x = 0; x < w; x++) {
+      const wx = 0.5 - 0.5 * Math.cos((2 * Math.PI * x) / Math.max(1, w - 1));
+      out[y * n + x] = (data[y * n + x] - mean) * wx * wy;
+    }
+  }
+  return out;
+};
+
+export const phaseCorrelate = (a: Float64Array, b: Float64Array, n: number, w = n, h = n): Peak =>
+  crossPowerPeak(preparePatch(a, n, w, h), preparePatch(b, n, w, h), n);
+
+// Centred, high-pass filtered magnitude spectrum resampled to log-polar (rows: angle 0-180°, cols: log radius)
+const logPolarSpectrum = (data: Float64Array, n: number) => {
+  const re = Float64Array.from(data);
+  const im = new Float64Array(data.length);
+  fft2d(re, im, n);
+
+  const mag = new Float64Array(n * n);
+  for (let y = 0; y < n; y++) {
+    for (let x = 0; x < n; x++) {
+      // fftshift so the DC term is at the centre
+      const sx = (x + n / 2) % n;
+      const sy = (y + n / 2) % n;
+      const fx = x / n - 0.5;
+      const fy = y / n - 0.5;
+      const cosProduct = Math.cos(Math.PI * fx) * Math.cos(Math.PI * fy);
+      const highPass = (1 - cosProduct) * (2 - cosProduct);
+      mag[y * n + x] = Math.hypot(re[sy * n + sx], im[sy * n + sx]) * highPass;
+    }
+  }
+
+  const out = new Float64Array(n * n);
+  const center = n / 2;
+  const logBase = Math.log(center) / n;
+  for (let row = 0; row < n; row++) {
+    const theta = (Math.PI * row) / n;
+    const cos = Math.cos(theta);
+    const sin = Math.sin(theta);
+    for (let col = 0; col < n; col++) {
+      const r = Math.exp(col * logBase);
+      const x = center + r * cos;
+      const y = center + r * sin;
+      const x0 = Math.floor(x), y0 = Math.floor(y);
+      if (x0 < 0 || y0 < 0 || x0 + 1 >= n || y0 + 1 >= n) continue;
+      const fx = x - x0, fy = y - y0;
+      out[row * n + col] =
+        mag[y0 * n + x0] * (1 - fx) * (1 - fy) + mag[y0 * n + x0 + 1] * fx * (1 - fy) +
+        mag[(y0 + 1) * n + x0] * (1 - fx) * fy + mag[(y0 + 1) * n + x0 + 1] * fx * fy;
+    }
+  }
+  return out;
+};
+
+// Rotation of b relative to a in degrees (clockwise positive), within ±90°
+export const estimateRotation = (a: Float64Array, b: Float64Array, n: number, w = n, h = n) => {
+  const lpA = logPolarSpectrum(preparePatch(a, n, w, h), n);
+  const lpB = logPolarSpectrum(preparePatch(b, n, w, h), n);
+  const peak = crossPowerPeak(lpA, lpB, n);
+  return { angle: normalizeAngle((peak.y * 180) / n), peak: peak.value };
+};
+
+const renderPatch = (img: HTMLImageElement, layer: Layer, region: Bounds, scale: number, n: number): Float64Array => {
+  const canvas = document.createElement('canvas');
+  canvas.width = n;
+  canvas.height = n;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  ctx.scale(scale, scale);
+  ctx.translate(-region.minX, -region.minY);
+  drawLayer(ctx, img, layer);
+
+  const { data } = ctx.getImageData(0, 0, n, n);
+  const gray = new Float64Array(n * n);
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    gray[i] = (0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2]) * (data[p + 3] / 255);
+  }
+  return gray;
+};
+
+const getOverlap = (a: Layer, b: Layer): Bounds | null => {
+  const overlap = getOverlapBounds(a, b);
+  if (!overlap || overlap.maxX - overlap.minX < MIN_OVERLAP || overlap.maxY - overlap.minY < MIN_OVERLAP) return null;
+  return overlap;
+};
+
+export const phaseAlign = async (reference: Layer, moving: Layer, withRotation: boolean): Promise<PhaseAlignResult> => {
+  const region = getOverlap(reference, moving);
+  if (!region) {
+    throw new Error('The layers do not overlap. Place them roughly in position first.');
+  }
+
+  const regionW = region.maxX - region.minX;
+  const regionH = region.maxY - region.minY;
+  const scale = Math.min(1, MAX_PATCH / Math.max(regionW, regionH));
+  const w = Math.max(1, Math.floor(regionW * scale));
+  const h = Math.max(1, Math.floor(regionH * scale));
+  const n = nextPowerOfTwo(Math.max(w, h));
+
+  const [refImg, movImg] = await Promise.all([loadImage(reference.imageUrl), loadImage(moving.imageUrl)]);
+  const refPatch = renderPatch(refImg, reference, region, scale, n);
+
+  let candidate = moving;
+  let rotation = 0;
+  let rotationPeak: number | undefined;
+  if (withRotation) {
+    const estimate = estimateRotation(refPatch, renderPatch(movImg, moving, region, scale, n), n, w, h);
+    rotation = -estimate.angle;
+    rotationPeak = estimate.peak;
+    candidate = applyLayerChanges(moving, { rotation: normalizeAngle(moving.rotation + rotation) });
+  }
+
+  const shift = phaseCorrelate(refPatch, renderPatch(movImg, candidate, region, scale, n), n, w, h);
+  const dx = -shift.x / scale;
+  const dy = -shift.y / scale;
+
+  return {
+    layer: { ...candidate, x: candidate.x + dx, y: candidate.y + dy },
+    dx,
+    dy,
+    rotation,
+    peak: shift.value,
+    rotationPeak
+  };
+};
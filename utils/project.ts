@@ -0,0 +1,130 @@
+import { Layer, Artboard, Guide, Calibration, Coordinates, ProjectManifest, ProjectLayerRecord } from '../types';
+import { createArchive, readArchive, ArchiveEntry } from './archive';
+
+// A .stitchcraft file is a ZIP holding manifest.json plus the original image bytes.
+
+export const PROJECT_EXTENSION = '.stitchcraft';
+export const PROJECT_VERSION = 1;
+
+const MANIFEST_NAME = 'manifest.json';
+
+export interface ProjectState {
+  layers: Layer[];
+  checkedLayers: Set<string>;
+  angleStep: number;
+  artboard: Artboard | null;
+  guides: Guide[];
+  calibration: Calibration | null;
+  zoom: number;
+  pan: Coordinates;
+}
+
+export const saveProject = async (state: ProjectState): Promise<Blob> => {
+  const entries: ArchiveEntry[] = [];
+
+  const records: ProjectLayerRecord[] = await Promise.all(state.layers.map(async (layer) => {
+    const { file, imageUrl, ...rest } = layer;
+    const image = `images/${layer.id}/${layer.name}`;
+    entries.push({ name: image, data: new Uint8Array(await file.arrayBuffer()) });
+    return {
+      ...rest,
+      image,
+      mimeType: file.type,
+      lastModified: file.lastModified
+    };
+  }));
+
+  const manifest: ProjectManifest = {
+    format: 'stitchcraft-project',
+    version: PROJECT_VERSION,
+    layers: records,
+    // Keep only ids that still exist so the manifest never points at deleted layers
+    checkedLayers: state.layers.filter(l => state.checkedLayers.has(l.id)).map(l => l.id),
+    angleStep: state.angleStep,
+    artboard: state.artboard,
+    guides: state.guides,
+    calibration: state.calibration,
+    viewport: { zoom: state.zoom, pan: state.pan }
+  };
+
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest, null, 2));
+  return createArchive([{ name: MANIFEST_NAME, data: manifestBytes }, ...entries]);
+};
+
+// Layer fields that feed geometry; a missing or non-finite one would turn into NaN positions
+const LAYER_NUMBER_FIELDS = ['x', 'y', 'rotation', 'scale', 'opacity', 'width', 'height'] as const;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Top-level fields openProject relies on; anything else is not a project manifest
+const isManifestShape = (manifest: ProjectManifest | null): manifest is ProjectManifest =>
+  !!manifest &&
+  typeof manifest === 'object' &&
+  manifest.format === 'stitchcraft-project' &&
+  Array.isArray(manifest.layers) &&
+  manifest.layers.every(record => !!record && typeof record.image === 'string' && typeof record.name === 'string') &&
+  Array.isArray(manifest.checkedLayers) &&
+  isFiniteNumber(manifest.angleStep) && manifest.angleStep > 0 &&
+  !!manifest.viewport &&
+  isFiniteNumber(manifest.viewport.zoom) && manifest.viewport.zoom > 0 &&
+  !!manifest.viewport.pan &&
+  isFiniteNumber(manifest.viewport.pan.x) &&
+  isFiniteNumber(manifest.viewport.pan.y);
+
+export const openProject = async (blob: Blob): Promise<ProjectState> => {
+  const entries = await readArchive(blob);
+  const files = new Map(entries.map(e => [e.name, e.data]));
+
+  const manifestBytes = files.get(MANIFEST_NAME);
+  if (!manifestBytes) {
+    throw new Error('Project file has no manifest.json');
+  }
+
+  let manifest: ProjectManifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(manifestBytes));
+  } catch {
+    throw new Error('Project manifest is not valid JSON');
+  }
+
+  if (!isManifestShape(manifest)) {
+    throw new Error('File is not a StitchCraft project');
+  }
+  if (manifest.version > PROJECT_VERSION) {
+    throw new Error(`Project was saved by a newer version (v${manifest.version}) of StitchCraft`);
+  }
+
+  const invalid = manifest.layers
+    .map(record => ({ record, field: LAYER_NUMBER_FIELDS.find(field => !isFiniteNumber(record[field])) }))
+    .find(({ field }) => field !== undefined);
+  if (invalid) {
+    throw new Error(`Layer "${invalid.record.name}" has no valid ${invalid.field} value`);
+  }
+
+  // Every image is checked before any blob URL is created, so a broken project leaks none
+  const missing = manifest.layers.find(record => !files.has(record.image));
+  if (missing) {
+    throw new Error(`Image for layer "${missing.name}" is missing from the project`);
+  }
+
+  const layers: Layer[] = manifest.layers.map((record) => {
+    const { image, mimeType, lastModified, ...rest } = record;
+    const file = new File([files.get(image)!], record.name, { type: mimeType, lastModified });
+    return {
+      ...rest,
+      file,
+      imageUrl: URL.createObjectURL(file)
+    };
+  });
+
+  return {
+    layers,
+    checkedLayers: new Set(manifest.checkedLayers.filter(id => layers.some(l => l.id === id))),
+    angleStep: manifest.angleStep,
+    artboard: manifest.artboard ?? null,
+    guides: manifest.guides ?? [],
+    calibration: manifest.calibration ?? null,
+    zoom: manifest.viewport.zoom,
+    pan: manifest.viewport.pan
+  };
+};
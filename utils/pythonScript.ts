@@ -0,0 +1,189 @@
+import { ExportDocumentV2 } from '../types';
+
+// Generates a self-contained Python/OpenCV script that rebuilds the composite from the
+// embedded layout. The matrix math mirrors getAffineMatrix() in geometry.ts.
+
+export type PythonBlendMode = 'alpha' | 'overwrite';
+
+export interface PythonScriptOptions {
+  blend: PythonBlendMode;
+  outputPath: string;
+}
+
+// JSON -> Python literal. JSON string escapes are valid Python string escapes.
+const toPython = (value: unknown, indent = 0): string => {
+  const pad = '    '.repeat(indent);
+  const inner = '    '.repeat(indent + 1);
+  if (value === null || value === undefined) return 'None';
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'None';
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (Array.isArray(value)) {
+    // Keep short numeric rows (matrix rows) on one line
+    if (value.every(v => typeof v === 'number')) return `[${value.map(v => toPython(v)).join(', ')}]`;
+    if (value.length === 0) return '[]';
+    return `[\n${value.map(v => inner + toPython(v, indent + 1)).join(',\n')},\n${pad}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>).filter(([, v]) => v !== undefined);
+  if (entries.length === 0) return '{}';
+  return `{\n${entries.map(([k, v]) => `${inner}${JSON.stringify(k)}: ${toPython(v, indent + 1)}`).join(',\n')},\n${pad}}`;
+};
+
+export const buildPythonScript = (doc: ExportDocumentV2, options: PythonScriptOptions): string => `#!/usr/bin/env python3
+# -*- coding: utf-8 -*-
+"""Rebuild a StitchCraft layout with OpenCV.
+
+Generated by StitchCraft on ${new Date().toISOString()}.
+
+Coordinate convention (same as the app and its JSON/CSV export):
+  * Each image is first sliced to its crop box (\`crop_x\`, \`crop_y\`, \`crop_width\`,
+    \`crop_height\`; the whole image when uncropped). Every size below is of the crop.
+  * Its colours are compensated per channel on 0-1 values:
+        out = (in * gain - 0.5) * contrast + 0.5 + brightness
+  * It is mirrored when \`flip_x\` / \`flip_y\` are set (cv2.flip), then
+    scaled by \`scale\` and rotated by \`rotate\` degrees (clockwise) about its own centre.
+  * The rotated image's axis-aligned bounding box is \`bbox_width\` x \`bbox_height\`
+    (about h * s * |sin(t)| + w * s * |cos(t)| by h * s * |cos(t)| + w * s * |sin(t)|,
+    exact within 0.05 degrees of a right angle) and its top-left corner sits at
+    (shift_x, shift_y). The sizes are taken from the layout, not recomputed.
+  * The output canvas covers every layer; canvas pixel (0, 0) is at
+    (origin_x, origin_y) in layout coordinates.
+  * Layers are drawn in \`layer_order\`, bottom to top. Hidden layers are skipped.
+
+Usage:
+    python stitch.py [--images DIR] [--output PATH] [--blend alpha|overwrite]
+
+Requires: opencv-python, numpy
+"""
+
+import argparse
+import math
+import os
+import sys
+
+import cv2
+import numpy as np
+
+OUTPUT_PATH = ${JSON.stringify(options.outputPath || 'stitched.png')}
+
+# "alpha": composite with each image's alpha channel multiplied by the layer opacity
+# "overwrite": later layers replace earlier pixels wherever they have content
+BLEND_MODE = ${JSON.stringify(options.blend)}
+
+LAYOUT = ${toPython(doc)}
+
+
+def layer_matrix(layer, origin_x, origin_y):
+    """2x3 matrix mapping cropped source pixels to output canvas pixels (for cv2.warpAffine)."""
+    theta = math.radians(layer["rotate"])
+    a = layer["scale"] * math.cos(theta)
+    b = layer["scale"] * math.sin(theta)
+    fx = -1.0 if layer.get("flip_x") else 1.0
+    fy = -1.0 if layer.get("flip_y") else 1.0
+
+    src_cx = layer["crop_width"] / 2.0
+    src_cy = layer["crop_height"] / 2.0
+    # The app's own bbox, which snaps near-right angles to exact sizes
+    dst_cx = layer["shift_x"] + layer["bbox_width"] / 2.0 - origin_x
+    dst_cy = layer["shift_y"] + layer["bbox_height"] / 2.0 - origin_y
+
+    return np.array([
+        [a * fx, -b * fy, dst_cx - (a * fx * src_cx - b * fy * src_cy)],
+        [b * fx, a * fy, dst_cy - (b * fx * src_cx + a * fy * src_cy)],
+    ], dtype=np.float64)
+
+
+def load_bgra(path):
+    img = cv2.imread(path, cv2.IMREAD_UNCHANGED)
+    if img is None:
+        raise FileNotFoundError(path)
+    if img.dtype != np.uint8:
+        img = cv2.convertScaleAbs(img, alpha=255.0 / np.iinfo(img.dtype).max)
+    if img.ndim == 2:
+        return cv2.cvtColor(img, cv2.COLOR_GRAY2BGRA)
+    if img.shape[2] == 3:
+        return cv2.cvtColor(img, cv2.COLOR_BGR2BGRA)
+    return img
+
+
+def apply_exposure(img, layer):
+    """Per-channel gain, contrast and brightness on a BGRA image (alpha untouched)."""
+    gains = (layer.get("gain_b", 1.0), layer.get("gain_g", 1.0), layer.get("gain_r", 1.0))
+    contrast = layer.get("contrast", 1.0)
+    brightness = layer.get("brightness", 0.0)
+    if contrast == 1.0 and brightness == 0.0 and gains == (1.0, 1.0, 1.0):
+        return img
+    out = img.copy()
+    for c, gain in enumerate(gains):
+        value = (img[:, :, c].astype(np.float32) * gain - 127.5) * contrast + 127.5 + brightness * 255.0
+        out[:, :, c] = np.clip(value + 0.5, 0, 255).astype(np.uint8)
+    return out
+
+
+def stitch(image_dir, blend):
+    canvas_info = LAYOUT["canvas"]
+    size = (canvas_info["width"], canvas_info["height"])
+    origin_x, origin_y = canvas_info["origin_x"], canvas_info["origin_y"]
+
+    # Premultiplied colour + coverage accumulators
+    color = np.zeros((size[1], size[0], 3), dtype=np.float32)
+    alpha = np.zeros((size[1], size[0]), dtype=np.float32)
+
+    for layer in sorted(LAYOUT["layers"], key=lambda l: l["layer_order"]):
+        if not layer["visible"]:
+            continue
+        path = os.path.join(image_dir, layer["filename"])
+        try:
+            img = load_bgra(path)
+        except FileNotFoundError:
+            sys.exit("Missing image: %s" % path)
+
+        if img.shape[1] != layer["width"] or img.shape[0] != layer["height"]:
+            print("Warning: %s is %dx%d, layout expects %dx%d" % (
+                layer["filename"], img.shape[1], img.shape[0], layer["width"], layer["height"]))
+
+        x, y = layer["crop_x"], layer["crop_y"]
+        img = img[y:y + layer["crop_height"], x:x + layer["crop_width"]]
+        img = apply_exposure(img, layer)
+
+        m = layer_matrix(layer, origin_x, origin_y)
+        warped = cv2.warpAffine(img, m, size, flags=cv2.INTER_LINEAR,
+                                borderMode=cv2.BORDER_CONSTANT, borderValue=(0, 0, 0, 0))
+        src = warped[:, :, :3].astype(np.float32)
+        src_alpha = warped[:, :, 3].astype(np.float32) / 255.0
+
+        if blend == "overwrite":
+            mask = src_alpha > 0.5
+            color[mask] = src[mask]
+            alpha[mask] = 1.0
+        else:
+            a = src_alpha * float(layer["opacity"])
+            color = src * a[:, :, None] + color * (1.0 - a[:, :, None])
+            alpha = a + alpha * (1.0 - a)
+
+    # Un-premultiply
+    safe = np.where(alpha > 0, alpha, 1.0)[:, :, None]
+    out = np.dstack([color / safe, alpha * 255.0])
+    return np.clip(out + 0.5, 0, 255).astype(np.uint8)
+
+
+def main():
+    parser = argparse.ArgumentParser(description="Rebuild a StitchCraft layout with OpenCV.")
+    parser.add_argument("--images", default=os.path.dirname(os.path.abspath(__file__)),
+                        help="directory containing the source images (default: script directory)")
+    parser.add_argument("--output", default=OUTPUT_PATH, help="output image path (default: %(default)s)")
+    parser.add_argument("--blend", choices=["alpha", "overwrite"], default=BLEND_MODE,
+                        help="compositing mode (default: %(default)s)")
+    args = parser.parse_args()
+
+    result = stitch(args.images, args.blend)
+    if os.path.splitext(args.output)[1].lower() in (".jpg", ".jpeg", ".bmp"):
+        result = result[:, :, :3]  # formats without an alpha channel
+    if not cv2.imwrite(args.output, result):
+        sys.exit("Could not write %s" % args.output)
+    print("Wrote %s (%dx%d)" % (args.output, result.shape[1], result.shape[0]))
+
+
+if __name__ == "__main__":
+    main()
+`;
@@ -0,0 +1,86 @@
+import { Layer, Guide } from '../types';
+import { Bounds, getLayersBounds } from './geometry';
+
+// Magnetic snapping for dragged selections. The selection's bounding box edges and
+// centre are compared against target lines on each axis independently.
+
+export interface SnapTarget {
+  value: number; // canvas coordinate of the line
+  extent?: [number, number]; // span along the other axis; omitted for infinite lines (origin, guides)
+}
+
+export interface SnapTargets {
+  x: SnapTarget[]; // vertical lines
+  y: SnapTarget[]; // horizontal lines
+}
+
+export interface SnapLine {
+  axis: 'x' | 'y';
+  position: number;
+  extent?: [number, number];
+}
+
+export interface SnapResult {
+  dx: number; // correction to add to the drag offset
+  dy: number;
+  lines: SnapLine[];
+}
+
+export const getSnapTargets = (layers: Layer[], excludeIds: Set<string>, includeOrigin: boolean, guides: Guide[] = []): SnapTargets => {
+  const targets: SnapTargets = { x: [], y: [] };
+  if (includeOrigin) {
+    targets.x.push({ value: 0 });
+    targets.y.push({ value: 0 });
+  }
+  guides.forEach(guide => targets[guide.axis].push({ value: guide.position }));
+  layers.forEach(layer => {
+    if (!layer.visible || excludeIds.has(layer.id)) return;
+    const b = getLayersBounds([layer]);
+    if (!b) return;
+    [b.minX, (b.minX + b.maxX) / 2, b.maxX].forEach(value => targets.x.push({ value, extent: [b.minY, b.maxY] }));
+    [b.minY, (b.minY + b.maxY) / 2, b.maxY].forEach(value => targets.y.push({ value, extent: [b.minX, b.maxX] }));
+  });
+  return targets;
+};
+
+// Closest target within `threshold` of any of the given coordinates
+const findSnap = (coords: number[], targets: SnapTarget[], threshold: number) => {
+  let best: { delta: number; target: SnapTarget } | null = null;
+  for (const c of coords) {
+    for (const target of targets) {
+      const delta = target.value - c;
+      if (Math.abs(delta) <= threshold && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+        best = { delta, target };
+      }
+    }
+  }
+  return best;
+};
+
+// `threshold` is in canvas units; callers convert from screen pixels with the zoom
+export const snapBounds = (bounds: Bounds, targets: SnapTargets, threshold: number): SnapResult => {
+  const snapX = findSnap([bounds.minX, (bounds.minX + bounds.maxX) / 2, bounds.maxX], targets.x, threshold);
+  const snapY = findSnap([bounds.minY, (bounds.minY + bounds.maxY) / 2, bounds.maxY], targets.y, threshold);
+  const dx = snapX ? snapX.delta : 0;
+  const dy = snapY ? snapY.delta : 0;
+
+  // Lines span both the snapped selection and the target so the relationship is visible
+  const lines: SnapLine[] = [];
+  if (snapX) {
+    const extent = snapX.target.extent;
+    lines.push({
+      axis: 'x',
+      position: snapX.target.value,
+      extent: extent && [Math.min(extent[0], bounds.minY + dy), Math.max(extent[1], bounds.maxY + dy)]
+    });
+  }
+  if (snapY) {
+    const extent = snapY.target.extent;
+    lines.push({
+      axis: 'y',
+      position: snapY.target.value,
+      extent: extent && [Math.min(extent[0], bounds.minX + dx), Math.max(extent[1], bounds.maxX + dx)]
+    });
+  }
+  return { dx, dy, lines };
+};